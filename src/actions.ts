@@ -0,0 +1,152 @@
+import { addToList, scrobbleMovie, scrobbleEpisode, scrobbleAnime, ScrobbleTarget } from './simkl';
+import { updateAnimeProgress, setAnimeListStatus, resolveAniListId } from './anilist';
+import { cancelPendingScrobble } from './queue';
+import { getPlaybackSession, abandonPlaybackSession, isSameTarget } from './session';
+
+/**
+ * Manual list actions, offered as stream entries on movie/episode pages.
+ * Each entry opens an addon URL that runs the action for the configured user.
+ */
+
+export type StreamAction = 'plantowatch' | 'watched' | 'cancel' | 'drop';
+
+const ACTION_TITLES: Record<StreamAction, string> = {
+    plantowatch: '📋 Add to Plan to Watch',
+    watched: '✅ Mark watched now',
+    cancel: '⏹️ Cancel pending scrobble',
+    drop: '🗑️ Drop show',
+};
+
+// The item an action applies to (the show, for episode pages)
+export interface ActionItem {
+    target: ScrobbleTarget;
+    title: string;
+    anilistId?: number;
+    malId?: number;
+    anilistProgress?: number;
+}
+
+export function isStreamAction(value: string): value is StreamAction {
+    return Object.prototype.hasOwnProperty.call(ACTION_TITLES, value);
+}
+
+/**
+ * Build the action stream entries for a page.
+ * Episode-only actions need an episode ID; cancel is only offered while a scrobble is pending.
+ */
+export function buildActionStreams(
+    actionUrl: (action: StreamAction) => string,
+    options: { isMovie: boolean; hasEpisode: boolean; hasPending: boolean }
+): Array<{ name: string; title: string; externalUrl: string }> {
+    const actions: StreamAction[] = ['plantowatch'];
+    if (options.isMovie || options.hasEpisode) actions.push('watched');
+    if (options.hasPending) actions.push('cancel');
+    if (!options.isMovie) actions.push('drop');
+
+    return actions.map((action) => ({
+        name: 'Simkl',
+        title: ACTION_TITLES[action],
+        externalUrl: actionUrl(action),
+    }));
+}
+
+function listMediaType(target: ScrobbleTarget): 'movie' | 'show' | 'anime' {
+    if (target.type === 'movie') return 'movie';
+    return target.type === 'anime' ? 'anime' : 'show';
+}
+
+async function markWatched(userId: string, item: ActionItem, accessToken: string, anilistToken?: string): Promise<boolean> {
+    const { target } = item;
+
+    // Don't let a pending scrobble of the same item count it twice
+    const session = await getPlaybackSession(userId);
+    if (session && isSameTarget(session.target, target)) {
+        await cancelPendingScrobble(userId);
+        await abandonPlaybackSession(userId, session, accessToken);
+    }
+
+    let success: boolean;
+    if (target.type === 'anime' && target.episode === undefined) {
+        // Anime movies have no episodes; completing the entry marks it watched
+        success = await addToList('anime', target.simklId, 'completed', accessToken);
+    } else if (target.type === 'movie') {
+        success = await scrobbleMovie(target.simklId, accessToken);
+    } else if (target.type === 'episode') {
+        success = await scrobbleEpisode(target.simklId, target.season, target.episode, accessToken);
+    } else {
+        success = await scrobbleAnime(target.simklId, target.episode, accessToken, target.season);
+    }
+
+    if (success && target.type === 'anime' && target.episode !== undefined && anilistToken) {
+        const anilistId = await resolveAniListId(item.anilistId, item.malId, anilistToken);
+        if (anilistId) {
+            await updateAnimeProgress(anilistId, item.anilistProgress ?? target.episode, anilistToken);
+        }
+    }
+
+    return success;
+}
+
+async function moveToList(
+    item: ActionItem,
+    status: 'plantowatch' | 'dropped',
+    accessToken: string,
+    anilistToken?: string
+): Promise<boolean> {
+    const success = await addToList(listMediaType(item.target), item.target.simklId, status, accessToken);
+
+    if (success && item.target.type === 'anime' && anilistToken) {
+        const anilistId = await resolveAniListId(item.anilistId, item.malId, anilistToken);
+        if (anilistId) {
+            await setAnimeListStatus(anilistId, status === 'dropped' ? 'DROPPED' : 'PLANNING', anilistToken);
+        }
+    }
+
+    return success;
+}
+
+/**
+ * Cancel the user's pending scrobble and stop showing them as watching.
+ * Returns false if there was nothing to cancel.
+ */
+async function cancelScrobble(userId: string, accessToken: string): Promise<boolean> {
+    const cancelled = await cancelPendingScrobble(userId);
+
+    const session = await getPlaybackSession(userId);
+    if (session) {
+        await abandonPlaybackSession(userId, session, accessToken);
+    }
+
+    return cancelled || !!session;
+}
+
+/**
+ * Run an action for the user. Every action except cancel needs the resolved item.
+ * Returns true if Simkl accepted it.
+ */
+export async function runAction(
+    action: StreamAction,
+    userId: string,
+    item: ActionItem | null,
+    accessToken: string,
+    anilistToken?: string
+): Promise<boolean> {
+    if (action === 'cancel') {
+        return cancelScrobble(userId, accessToken);
+    }
+
+    if (!item) return false;
+
+    switch (action) {
+        case 'watched':
+            return markWatched(userId, item, accessToken, anilistToken);
+        case 'plantowatch':
+            return moveToList(item, 'plantowatch', accessToken, anilistToken);
+        case 'drop':
+            return moveToList(item, 'dropped', accessToken, anilistToken);
+    }
+}
+
+export function describeAction(action: StreamAction): string {
+    return ACTION_TITLES[action];
+}
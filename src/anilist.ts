@@ -1,4 +1,6 @@
 import fetch from 'node-fetch';
+import { resolveAnimeIds } from './idmap';
+import { CatalogItem } from './catalog';
 
 const ANILIST_API_URL = 'https://graphql.anilist.co';
 const ANILIST_AUTH_URL = 'https://anilist.co/api/v2/oauth/authorize';
@@ -83,41 +85,25 @@ async function graphqlRequest(
 }
 
 /**
- * Search for anime on AniList by Kitsu ID.
- * Returns AniList media ID if found, null otherwise.
+ * Find the AniList entry for a Kitsu ID.
+ * Uses the offline ID mapping, falling back to a MAL ID lookup on AniList.
+ * Returns null if no mapping is known.
  */
 export async function searchAnimeByKitsu(
     kitsuId: string,
     accessToken: string
 ): Promise<{ anilistId: number; title: string } | null> {
-    // AniList doesn't support direct Kitsu ID lookup, so we need to search by ID format
-    // First try to get the anime info from Kitsu to get the title, then search AniList
-
-    // For now, we'll use the idMal mapping if available through Simkl
-    // This is a simplified approach - in production you'd want a proper ID mapping service
+    const ids = resolveAnimeIds('kitsu', kitsuId);
+    if (!ids) {
+        return null;
+    }
 
-    const query = `
-        query ($search: String) {
-            Media(search: $search, type: ANIME) {
-                id
-                title {
-                    romaji
-                    english
-                }
-            }
-        }
-    `;
+    if (ids.anilist) {
+        return { anilistId: ids.anilist, title: `kitsu:${kitsuId}` };
+    }
 
-    try {
-        const data = await graphqlRequest(query, { search: kitsuId }, accessToken);
-        if (data?.Media) {
-            return {
-                anilistId: data.Media.id,
-                title: data.Media.title.english || data.Media.title.romaji,
-            };
-        }
-    } catch (error) {
-        console.error('AniList search failed:', error);
+    if (ids.mal) {
+        return searchAnimeByMalId(ids.mal, accessToken);
     }
 
     return null;
@@ -198,6 +184,54 @@ export async function updateAnimeProgress(
     return false;
 }
 
+/**
+ * Resolve the AniList media ID, looking it up by MAL ID when it isn't known.
+ */
+export async function resolveAniListId(
+    anilistId: number | undefined,
+    malId: number | undefined,
+    accessToken: string
+): Promise<number | null> {
+    if (anilistId) return anilistId;
+    if (!malId) return null;
+
+    const result = await searchAnimeByMalId(malId, accessToken);
+    if (result) {
+        console.log(`Found AniList ID ${result.anilistId} for MAL ID ${malId}`);
+    }
+    return result?.anilistId ?? null;
+}
+
+/**
+ * Set the status of an anime on the user's AniList list, adding it if needed.
+ */
+export async function setAnimeListStatus(
+    anilistId: number,
+    status: AniListStatus,
+    accessToken: string
+): Promise<boolean> {
+    const mutation = `
+        mutation ($mediaId: Int, $status: MediaListStatus) {
+            SaveMediaListEntry(mediaId: $mediaId, status: $status) {
+                id
+                status
+            }
+        }
+    `;
+
+    try {
+        const data = await graphqlRequest(mutation, { mediaId: anilistId, status }, accessToken);
+        if (data?.SaveMediaListEntry) {
+            console.log(`AniList: Set status ${status} for media ${anilistId}`);
+            return true;
+        }
+    } catch (error) {
+        console.error('AniList status update failed:', error);
+    }
+
+    return false;
+}
+
 /**
  * Get current user info from AniList (to verify token is valid).
  */
@@ -225,14 +259,40 @@ export async function getAniListUser(accessToken: string): Promise<{ id: number;
 
     return null;
 }
+
 /**
- * Get user's anime list from AniList by status.
- * Status: "CURRENT" (Watching) or "PLANNING" (Plan to Watch).
+ * Translate an AniList media entry into a Stremio-playable ID.
+ * Prefers Kitsu, then IMDb (via the offline mapping by AniList ID, then MAL ID).
+ * IMDb IDs are shared by all seasons of a show, so they come with the mapped
+ * TVDB season when it is known. Returns null if neither ID is known.
  */
-export async function getAniListUserList(
-    status: 'CURRENT' | 'PLANNING',
-    accessToken: string
-): Promise<any[]> {
+export function anilistMediaToStremioId(media: {
+    id: number;
+    idMal?: number | null;
+    format?: string | null;
+}): { id: string; type: 'anime' | 'movie' | 'series'; season?: number } | null {
+    const ids = resolveAnimeIds('anilist', media.id)
+        || (media.idMal ? resolveAnimeIds('mal', media.idMal) : null);
+
+    if (ids?.kitsu) {
+        return { id: `kitsu:${ids.kitsu}`, type: 'anime' };
+    }
+
+    if (ids?.imdb) {
+        return { id: ids.imdb, type: media.format === 'MOVIE' ? 'movie' : 'series', season: ids.season?.tvdb };
+    }
+
+    return null;
+}
+
+export type AniListStatus = 'CURRENT' | 'PLANNING' | 'PAUSED' | 'COMPLETED' | 'DROPPED' | 'REPEATING';
+
+/**
+ * Get the raw entries of the user's anime list with a given status.
+ * Each entry has the user's progress, updatedAt/createdAt and the media.
+ * Throws if the request fails.
+ */
+export async function getAniListEntries(status: AniListStatus, accessToken: string): Promise<any[]> {
     const user = await getAniListUser(accessToken);
     if (!user) return [];
 
@@ -241,6 +301,9 @@ export async function getAniListUserList(
             MediaListCollection(userId: $userId, type: ANIME, status: $status) {
                 lists {
                     entries {
+                        createdAt
+                        updatedAt
+                        progress
                         media {
                             id
                             idMal
@@ -257,6 +320,9 @@ export async function getAniListUserList(
                             description
                             genres
                             seasonYear
+                            nextAiringEpisode {
+                                episode
+                            }
                         }
                     }
                 }
@@ -264,36 +330,130 @@ export async function getAniListUserList(
         }
     `;
 
-    try {
-        const data = await graphqlRequest(
-            query,
-            { userId: user.id, status },
-            accessToken
-        );
+    const data = await graphqlRequest(
+        query,
+        { userId: user.id, status },
+        accessToken
+    );
 
-        // Flatten the lists
-        const entries = data?.MediaListCollection?.lists?.flatMap((l: any) => l.entries) || [];
+    // Flatten the lists
+    return data?.MediaListCollection?.lists?.flatMap((l: any) => l.entries) || [];
+}
 
-        // Convert to Stremio MetaPreview format
-        return entries.map((entry: any) => {
-            const media = entry.media;
-            const title = media.title.english || media.title.romaji;
+/**
+ * Get user's anime list from AniList by status, as catalog items.
+ * Status: "CURRENT" (Watching), "PLANNING" (Plan to Watch), "PAUSED",
+ * "COMPLETED", "DROPPED" or "REPEATING" (Rewatching).
+ */
+export async function getAniListUserList(
+    status: AniListStatus,
+    accessToken: string
+): Promise<CatalogItem[]> {
+    try {
+        const entries = await getAniListEntries(status, accessToken);
+
+        // Convert to Stremio MetaPreview format, dropping entries we can't open in Stremio
+        const items: CatalogItem[] = entries
+            .map((entry: any) => {
+                const media = entry.media;
+                const stremio = anilistMediaToStremioId(media);
+                if (!stremio) return null;
+
+                return {
+                    meta: {
+                        id: stremio.id,
+                        type: stremio.type,
+                        name: media.title.english || media.title.romaji,
+                        poster: media.coverImage?.large,
+                        description: media.description,
+                        genres: media.genres,
+                        releaseInfo: media.seasonYear ? String(media.seasonYear) : undefined,
+                    },
+                    addedAt: entry.createdAt ? entry.createdAt * 1000 : undefined,
+                    year: media.seasonYear || undefined,
+                    rating: media.averageScore ? media.averageScore / 10 : undefined,
+                };
+            })
+            .filter(Boolean);
+
+        if (items.length < entries.length) {
+            console.warn(`Dropped ${entries.length - items.length} AniList ${status} entries without a Kitsu or IMDb mapping`);
+        }
 
-            return {
-                // We use idMal as a fallback to try and get a Kitsu-compatible ID if possible, 
-                // but strictly speaking we don't have a reliable mapping here without an external service.
-                // We'll use the Kitsu prefix with the AniList ID as a best-effort placeholder.
-                id: `kitsu:${media.id}`,
-                type: 'anime',
-                name: title,
-                poster: media.coverImage?.large,
-                description: media.description,
-                releaseInfo: media.seasonYear ? String(media.seasonYear) : undefined,
-            };
-        });
+        return items;
 
     } catch (error) {
         console.error(`Failed to fetch AniList ${status} list:`, error);
         return [];
     }
 }
+
+/**
+ * Get airing schedule entries for the given media between two times (epoch seconds).
+ * Returns entries sorted by air time; empty if the request fails.
+ */
+export async function getAiringSchedule(
+    mediaIds: number[],
+    from: number,
+    to: number,
+    accessToken: string
+): Promise<Array<{ mediaId: number; episode: number; airingAt: number }>> {
+    if (mediaIds.length === 0) return [];
+
+    const query = `
+        query ($mediaIds: [Int], $from: Int, $to: Int, $page: Int) {
+            Page(page: $page, perPage: 50) {
+                pageInfo {
+                    hasNextPage
+                }
+                airingSchedules(mediaId_in: $mediaIds, airingAt_greater: $from, airingAt_lesser: $to, sort: TIME) {
+                    mediaId
+                    episode
+                    airingAt
+                }
+            }
+        }
+    `;
+
+    const schedules: Array<{ mediaId: number; episode: number; airingAt: number }> = [];
+
+    try {
+        // A handful of pages is plenty for a two-week window
+        for (let page = 1; page <= 5; page++) {
+            const data = await graphqlRequest(query, { mediaIds, from, to, page }, accessToken);
+            schedules.push(...(data?.Page?.airingSchedules || []));
+            if (!data?.Page?.pageInfo?.hasNextPage) break;
+        }
+    } catch (error) {
+        console.error('Failed to fetch AniList airing schedule:', error);
+    }
+
+    return schedules;
+}
+
+/**
+ * Search AniList anime by title, most relevant first.
+ * Works without a token; throws on API errors.
+ */
+export async function searchAniListMedia(search: string, accessToken?: string): Promise<any[]> {
+    const query = `
+        query ($search: String) {
+            Page(page: 1, perPage: 50) {
+                media(search: $search, type: ANIME, sort: SEARCH_MATCH) {
+                    id
+                    idMal
+                    format
+                    title { romaji english }
+                    coverImage { large }
+                    description
+                    genres
+                    seasonYear
+                    averageScore
+                }
+            }
+        }
+    `;
+
+    const data = await graphqlRequest(query, { search }, accessToken);
+    return data?.Page?.media || [];
+}
@@ -0,0 +1,74 @@
+import redis from './redis';
+
+const CACHE_KEY_PREFIX = 'simkl-scrobble:cache:';
+
+// Stored in place of a value when the upstream API had nothing for the key
+const NOT_FOUND = '__not_found__';
+
+// In-flight loads by cache key, so concurrent misses share one upstream request
+const inFlight = new Map<string, Promise<any>>();
+
+export interface CacheOptions {
+    ttl: number;          // Seconds to keep a found value
+    negativeTtl: number;  // Seconds to remember that nothing was found
+}
+
+async function readCache<T>(key: string): Promise<{ hit: boolean; value: T | null }> {
+    try {
+        const raw = await redis.get(CACHE_KEY_PREFIX + key);
+        if (raw === null) return { hit: false, value: null };
+        if (raw === NOT_FOUND) return { hit: true, value: null };
+        return { hit: true, value: JSON.parse(raw) as T };
+    } catch (error) {
+        console.error(`Cache read failed for ${key}:`, error);
+        return { hit: false, value: null };
+    }
+}
+
+async function writeCache<T>(key: string, value: T | null, options: CacheOptions): Promise<void> {
+    try {
+        if (value === null || value === undefined) {
+            await redis.set(CACHE_KEY_PREFIX + key, NOT_FOUND, 'EX', options.negativeTtl);
+        } else {
+            await redis.set(CACHE_KEY_PREFIX + key, JSON.stringify(value), 'EX', options.ttl);
+        }
+    } catch (error) {
+        console.error(`Cache write failed for ${key}:`, error);
+    }
+}
+
+/**
+ * Read-through cache backed by Redis.
+ * The loader returns null for "not found" (cached for negativeTtl) and
+ * throws for transient failures (logged, returned as null, not cached).
+ * Concurrent calls for the same key share a single loader call.
+ */
+export async function cached<T>(
+    key: string,
+    options: CacheOptions,
+    loader: () => Promise<T | null>
+): Promise<T | null> {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const load = (async () => {
+        const { hit, value } = await readCache<T>(key);
+        if (hit) return value;
+
+        try {
+            const loaded = await loader();
+            await writeCache(key, loaded, options);
+            return loaded;
+        } catch (error: any) {
+            console.error(error.message || error);
+            return null;
+        }
+    })();
+
+    inFlight.set(key, load);
+    try {
+        return await load;
+    } finally {
+        inFlight.delete(key);
+    }
+}
@@ -0,0 +1,146 @@
+import { getStoredList } from './liststore';
+import { getCalendar, simklItemToStremiometa, mappedAnimeSeason, SimklListItem } from './simkl';
+import { getAniListEntries, getAiringSchedule, anilistMediaToStremioId } from './anilist';
+import { buildVideoId } from './meta';
+import { CatalogItem } from './catalog';
+
+/**
+ * Calendar catalogs: upcoming and just-aired episodes of the user's Watching
+ * list, sorted by air date.
+ */
+
+// Window around now that counts as "just aired" / "upcoming"
+const PAST_DAYS = 3;
+const FUTURE_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatEpisode(season: number, episode: number): string {
+    return `S${String(season).padStart(2, '0')}E${String(episode).padStart(2, '0')}`;
+}
+
+/**
+ * Describe the air time, e.g. "Airs Mon, 06 Jan 2025 21:00 UTC".
+ */
+function describeAirTime(airsAt: number, now: number): string {
+    const when = new Date(airsAt).toUTCString().replace(/:\d\d GMT$/, ' UTC');
+    return `${airsAt <= now ? 'Aired' : 'Airs'} ${when}`;
+}
+
+function inWindow(airsAt: number, now: number): boolean {
+    return airsAt >= now - PAST_DAYS * DAY_MS && airsAt <= now + FUTURE_DAYS * DAY_MS;
+}
+
+function simklItemId(item: SimklListItem): number | undefined {
+    return (item.show || item.anime || item.movie)?.ids.simkl;
+}
+
+/**
+ * Build calendar items from Simkl's airing calendar for the user's Watching shows and anime.
+ */
+export async function getSimklCalendar(userId: string, accessToken: string): Promise<CatalogItem[]> {
+    const [shows, anime, tvCalendar, animeCalendar] = await Promise.all([
+        getStoredList(userId, 'shows', 'watching', accessToken),
+        getStoredList(userId, 'anime', 'watching', accessToken),
+        getCalendar('tv'),
+        getCalendar('anime'),
+    ]);
+
+    const now = Date.now();
+    const items: CatalogItem[] = [];
+
+    const sources: Array<[SimklListItem[], typeof tvCalendar, boolean]> = [
+        [shows, tvCalendar, false],
+        [anime, animeCalendar, true],
+    ];
+
+    for (const [watching, calendar, isAnime] of sources) {
+        const byId = new Map<number, SimklListItem>();
+        for (const item of watching) byId.set(simklItemId(item), item);
+
+        for (const entry of calendar) {
+            const item = byId.get(entry.ids?.simkl_id);
+            const airsAt = Date.parse(entry.date);
+            if (!item || !entry.episode || Number.isNaN(airsAt) || !inWindow(airsAt, now)) continue;
+
+            const meta = simklItemToStremiometa(item, 'series', isAnime);
+            if (!meta) continue;
+
+            // Simkl numbers anime per entry; an IMDb ID needs the mapped season
+            const season = isAnime && meta.id.startsWith('tt')
+                ? mappedAnimeSeason((item.anime || item.show).ids)
+                : entry.episode.season || 1;
+            if (season === undefined) continue;
+
+            const episode = entry.episode.episode;
+
+            items.push({
+                meta: {
+                    ...meta,
+                    name: `${meta.name} · ${formatEpisode(season, episode)}`,
+                    description: describeAirTime(airsAt, now),
+                    released: new Date(airsAt).toISOString(),
+                    behaviorHints: { defaultVideoId: buildVideoId(meta.id, season, episode) },
+                },
+                year: meta.year,
+                airsAt,
+            });
+        }
+    }
+
+    return items;
+}
+
+/**
+ * Build calendar items from AniList's airing schedule for the user's Watching list.
+ */
+export async function getAniListCalendar(accessToken: string): Promise<CatalogItem[]> {
+    let entries: any[];
+    try {
+        entries = await getAniListEntries('CURRENT', accessToken);
+    } catch (error) {
+        console.error('Failed to fetch AniList calendar:', error);
+        return [];
+    }
+
+    const mediaById = new Map<number, any>();
+    for (const entry of entries) mediaById.set(entry.media.id, entry.media);
+
+    const now = Date.now();
+    const schedules = await getAiringSchedule(
+        [...mediaById.keys()],
+        Math.floor((now - PAST_DAYS * DAY_MS) / 1000),
+        Math.floor((now + FUTURE_DAYS * DAY_MS) / 1000),
+        accessToken
+    );
+
+    return schedules
+        .map((schedule): CatalogItem | null => {
+            const media = mediaById.get(schedule.mediaId);
+            const stremio = media ? anilistMediaToStremioId(media) : null;
+            if (!stremio || stremio.type === 'movie') return null;
+
+            // Kitsu numbers per entry like AniList; IMDb needs the mapped season
+            const season = stremio.id.startsWith('kitsu:') ? 1 : stremio.season;
+            if (season === undefined) return null;
+
+            const airsAt = schedule.airingAt * 1000;
+            const name = media.title.english || media.title.romaji;
+
+            return {
+                meta: {
+                    id: stremio.id,
+                    type: stremio.type,
+                    name: `${name} · E${String(schedule.episode).padStart(2, '0')}`,
+                    poster: media.coverImage?.large,
+                    description: describeAirTime(airsAt, now),
+                    genres: media.genres,
+                    released: new Date(airsAt).toISOString(),
+                    behaviorHints: { defaultVideoId: buildVideoId(stremio.id, season, schedule.episode) },
+                },
+                year: media.seasonYear || undefined,
+                airsAt,
+            };
+        })
+        .filter(Boolean);
+}
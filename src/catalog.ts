@@ -0,0 +1,99 @@
+/**
+ * Server-side paging, sorting and genre filtering for catalog responses.
+ */
+
+export type CatalogSort = 'added' | 'title' | 'year' | 'rating' | 'airdate';
+
+export interface CatalogItem {
+    meta: {
+        id: string;
+        type: string;
+        name: string;
+        genres?: string[];
+        [key: string]: any;
+    };
+    addedAt?: number;         // Epoch ms the item was added to the list
+    year?: number;
+    rating?: number;          // 0-10
+    airsAt?: number;          // Epoch ms an episode airs (calendar catalogs)
+}
+
+// Items per page; Stremio requests the next page with skip=<items so far>
+export const PAGE_SIZE = 100;
+
+// Sort option labels shown in Stremio -> sort keys
+export const SORT_OPTIONS: Record<string, CatalogSort> = {
+    'Date Added': 'added',
+    'Title': 'title',
+    'Year': 'year',
+    'Rating': 'rating',
+};
+
+export const GENRES = [
+    'Action', 'Adventure', 'Animation', 'Comedy', 'Crime', 'Documentary',
+    'Drama', 'Family', 'Fantasy', 'History', 'Horror', 'Mecha', 'Music',
+    'Mystery', 'Psychological', 'Romance', 'Science Fiction', 'Slice of Life',
+    'Sports', 'Supernatural', 'Thriller', 'War', 'Western',
+];
+
+/**
+ * Extra properties every list catalog declares in the manifest.
+ */
+export function catalogExtra(): any[] {
+    return [
+        { name: 'skip' },
+        { name: 'genre', options: GENRES },
+        { name: 'sort', options: Object.keys(SORT_OPTIONS) },
+    ];
+}
+
+/**
+ * Parse a sort value from catalog extra or user config.
+ * Accepts both labels ("Date Added") and keys ("added").
+ */
+export function parseSort(value: string | undefined, fallback: CatalogSort = 'added'): CatalogSort {
+    if (!value) return fallback;
+    if (SORT_OPTIONS[value]) return SORT_OPTIONS[value];
+    return (Object.values(SORT_OPTIONS) as string[]).includes(value) ? value as CatalogSort : fallback;
+}
+
+function normalizeGenre(genre: string): string {
+    return genre.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function compareItems(sort: CatalogSort): (a: CatalogItem, b: CatalogItem) => number {
+    switch (sort) {
+        case 'title':
+            return (a, b) => a.meta.name.localeCompare(b.meta.name);
+        case 'year':
+            return (a, b) => (b.year || 0) - (a.year || 0);
+        case 'rating':
+            return (a, b) => (b.rating || 0) - (a.rating || 0);
+        case 'airdate':
+            return (a, b) => (a.airsAt || 0) - (b.airsAt || 0);
+        case 'added':
+        default:
+            return (a, b) => (b.addedAt || 0) - (a.addedAt || 0);
+    }
+}
+
+/**
+ * Filter by genre, sort and page catalog items according to the request extra.
+ */
+export function applyCatalogExtra(
+    items: CatalogItem[],
+    extra: { skip?: string; genre?: string; sort?: string } | undefined,
+    defaultSort: CatalogSort
+): CatalogItem['meta'][] {
+    let result = items;
+
+    if (extra?.genre) {
+        const wanted = normalizeGenre(extra.genre);
+        result = result.filter((item) => (item.meta.genres || []).some((g) => normalizeGenre(g) === wanted));
+    }
+
+    result = [...result].sort(compareItems(parseSort(extra?.sort, defaultSort)));
+
+    const skip = Math.max(0, parseInt(extra?.skip || '0', 10) || 0);
+    return result.slice(skip, skip + PAGE_SIZE).map((item) => item.meta);
+}
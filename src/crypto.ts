@@ -1,15 +1,87 @@
 import crypto from 'crypto';
 
-const ALGORITHM = 'aes-192-cbc';
+/**
+ * Token encryption: AES-256-GCM under versioned keys.
+ *
+ * Ciphertext format: "v2.<keyId>.<base64url(iv | tag | data)>". The key ID
+ * picks the key to decrypt with, so old tokens keep working after a new key
+ * is added. Values without the prefix are legacy AES-192-CBC tokens.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v2';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const LEGACY_ALGORITHM = 'aes-192-cbc';
+
+// Key ID of the single legacy ENCRYPTION_KEY
+const DEFAULT_KEY_ID = 'k0';
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface EncryptionKey {
+    id: string;
+    key: Buffer;
+    signingKey: Buffer;       // Separate HMAC key derived from the same secret
+}
+
+let keyring: EncryptionKey[] | null = null;
 
 /**
- * Get the encryption key from environment variable.
- * AES-192 requires a 24-byte key.
+ * Derive a 256-bit key from an env secret. The key ID is part of the salt, so
+ * reusing a secret under another ID gives a different key.
  */
-function getKey(): Buffer {
+function deriveKey(id: string, secret: string): Buffer {
+    return crypto.scryptSync(secret, `simkl-scrobbler:${id}`, 32);
+}
+
+/**
+ * Load the keys from ENCRYPTION_KEYS ("id:secret,id:secret", newest first).
+ * ENCRYPTION_KEY is always kept as key "k0" (last, unless listed), so tokens
+ * written before ENCRYPTION_KEYS was set still decrypt. Derived once and cached.
+ */
+function getKeyring(): EncryptionKey[] {
+    if (keyring) return keyring;
+
+    const entries = (process.env.ENCRYPTION_KEYS || '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const separator = entry.indexOf(':');
+            return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+        });
+
+    if (process.env.ENCRYPTION_KEY && !entries.some((entry) => entry.id === DEFAULT_KEY_ID)) {
+        entries.push({ id: DEFAULT_KEY_ID, secret: process.env.ENCRYPTION_KEY });
+    }
+
+    if (entries.length === 0) {
+        throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY environment variable is required');
+    }
+
+    for (const { id, secret } of entries) {
+        if (!KEY_ID_PATTERN.test(id) || !secret) {
+            throw new Error(`Invalid ENCRYPTION_KEYS entry "${id}": expected "id:secret"`);
+        }
+    }
+
+    keyring = entries.map(({ id, secret }) => {
+        const key = deriveKey(id, secret);
+        const signingKey = crypto.createHmac('sha256', key).update('signing').digest();
+        return { id, key, signingKey };
+    });
+    return keyring;
+}
+
+/**
+ * Key for tokens encrypted before key versioning (zero-padded ENCRYPTION_KEY).
+ */
+function getLegacyKey(): Buffer {
     const key = process.env.ENCRYPTION_KEY;
     if (!key) {
-        throw new Error('ENCRYPTION_KEY environment variable is required');
+        throw new Error('ENCRYPTION_KEY is required to decrypt legacy tokens');
     }
     // Ensure key is exactly 24 bytes
     const keyBuffer = Buffer.alloc(24);
@@ -18,27 +90,27 @@ function getKey(): Buffer {
 }
 
 /**
- * Encrypt a string using AES-192-CBC.
- * Returns a URL-safe base64 encoded string containing IV + ciphertext.
+ * Encrypt a string with the newest key.
+ * Returns a URL-safe string prefixed with the format version and key ID.
  */
 export function encrypt(text: string): string {
-    const key = getKey();
-    const iv = crypto.randomBytes(16);
+    const { id, key } = getKeyring()[0];
+    const iv = crypto.randomBytes(IV_LENGTH);
     const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+    // Bind the header to the ciphertext so the key ID can't be swapped
+    cipher.setAAD(Buffer.from(`${VERSION}.${id}`));
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
 
-    // Combine IV and encrypted data, encode as base64url
-    const combined = iv.toString('hex') + ':' + encrypted;
-    return Buffer.from(combined).toString('base64url');
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+    return `${VERSION}.${id}.${payload}`;
 }
 
 /**
- * Decrypt a string that was encrypted with the encrypt function.
+ * Decrypt a legacy AES-192-CBC token ("iv:ciphertext" in hex, base64url encoded).
  */
-export function decrypt(encryptedBase64: string): string {
-    const key = getKey();
+function decryptLegacy(encryptedBase64: string): string {
+    const key = getLegacyKey();
 
     // Decode base64url and split IV from ciphertext
     const combined = Buffer.from(encryptedBase64, 'base64url').toString('utf8');
@@ -49,10 +121,77 @@ export function decrypt(encryptedBase64: string): string {
     }
 
     const iv = Buffer.from(ivHex, 'hex');
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, key, iv);
 
     let decrypted = decipher.update(encryptedHex, 'hex', 'utf8');
     decrypted += decipher.final('utf8');
 
     return decrypted;
 }
+
+/**
+ * Decrypt a string that was encrypted with the encrypt function (any active
+ * key) or by the legacy scheme. Throws if it was tampered with.
+ */
+export function decrypt(encrypted: string): string {
+    if (!isEncrypted(encrypted)) {
+        return decryptLegacy(encrypted);
+    }
+
+    const [, keyId, payload] = encrypted.split('.');
+    const entry = getKeyring().find((candidate) => candidate.id === keyId);
+    if (!entry || !payload) {
+        throw new Error(`Unknown encryption key "${keyId}"`);
+    }
+
+    const data = Buffer.from(payload, 'base64url');
+    if (data.length < IV_LENGTH + TAG_LENGTH) {
+        throw new Error('Invalid encrypted data format');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, data.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(`${VERSION}.${keyId}`));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([
+        decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+        decipher.final(),
+    ]).toString('utf8');
+}
+
+/**
+ * Check whether a value is in the versioned encryption format.
+ */
+export function isEncrypted(value: string): boolean {
+    return value.startsWith(`${VERSION}.`);
+}
+
+/**
+ * Check whether a value is encrypted with something other than the newest key.
+ */
+export function needsReencryption(encrypted: string): boolean {
+    return !encrypted.startsWith(`${VERSION}.${getKeyring()[0].id}.`);
+}
+
+/**
+ * Re-encrypt a value under the newest key (unchanged if it already is).
+ */
+export function reencrypt(encrypted: string): string {
+    return needsReencryption(encrypted) ? encrypt(decrypt(encrypted)) : encrypted;
+}
+
+/**
+ * Sign a short-lived value (e.g. OAuth state) with HMAC-SHA256 under the newest key.
+ */
+export function sign(data: string): string {
+    return crypto.createHmac('sha256', getKeyring()[0].signingKey).update(data).digest('base64url');
+}
+
+/**
+ * Check a signature made by sign(), in constant time.
+ */
+export function verifySignature(data: string, signature: string): boolean {
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,134 @@
+import { getEpisodes, SimklEpisode } from './simkl';
+import { resolveAnimeIds, findAnimeIds, AnimeIds } from './idmap';
+
+/**
+ * Anime episode numbering differs per service:
+ * - Kitsu and AniList number episodes per entry (each sequel restarts at 1)
+ * - Simkl may model sequels as later seasons of one anime
+ * - Cinemeta (tt…:S:E) uses TVDB-style seasons
+ * This module converts a played episode into what each target expects.
+ */
+
+export interface AnimeEpisodeMapping {
+    simklSeason: number;
+    simklEpisode: number;
+    absolute?: number;        // Absolute episode number across Simkl seasons, if known
+    anilistId?: number;
+    malId?: number;
+    anilistProgress: number;  // Per-entry episode number for AniList progress
+}
+
+export interface PlayedAnimeEpisode {
+    kitsuId?: string;
+    imdbId?: string;
+    season?: number;          // Only for Cinemeta IDs
+    episode: number;
+}
+
+/**
+ * Regular (non-special) episodes with their season defaulted to 1.
+ */
+function regularEpisodes(episodes: SimklEpisode[]): Array<SimklEpisode & { season: number }> {
+    return episodes
+        .filter((ep) => ep.type !== 'special' && typeof ep.episode === 'number')
+        .map((ep) => ({ ...ep, season: ep.season || 1 }));
+}
+
+/**
+ * Convert a season/episode pair to an absolute episode number.
+ * Returns null if the episode is not in the list.
+ */
+export function seasonToAbsolute(episodes: SimklEpisode[], season: number, episode: number): number | null {
+    const regular = regularEpisodes(episodes);
+    if (!regular.some((ep) => ep.season === season && ep.episode === episode)) {
+        return null;
+    }
+
+    const before = regular.filter((ep) => ep.season < season).length;
+    return before + episode;
+}
+
+/**
+ * Convert an absolute episode number to a season/episode pair.
+ * Returns null if the list is shorter than the absolute number.
+ */
+export function absoluteToSeason(episodes: SimklEpisode[], absolute: number): { season: number; episode: number } | null {
+    const regular = regularEpisodes(episodes)
+        .sort((a, b) => a.season - b.season || a.episode - b.episode);
+
+    const match = regular[absolute - 1];
+    return match ? { season: match.season, episode: match.episode } : null;
+}
+
+/**
+ * Pick the mapping entry for a Cinemeta season.
+ * Uses the per-season info when the dataset has it, otherwise only an unambiguous match.
+ */
+function pickImdbEntry(imdbId: string, season: number): AnimeIds | null {
+    const matches = findAnimeIds('imdb', imdbId);
+    const bySeason = matches.find((ids) => ids.season?.tvdb === season);
+    if (bySeason) return bySeason;
+    return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Map a played anime episode to Simkl season/episode and AniList progress.
+ */
+export async function mapAnimeEpisode(
+    played: PlayedAnimeEpisode,
+    simklId: number,
+    accessToken: string
+): Promise<AnimeEpisodeMapping> {
+    const episodes = await getEpisodes(simklId, 'anime', accessToken);
+    const seasons = new Set(regularEpisodes(episodes).map((ep) => ep.season));
+
+    if (played.kitsuId) {
+        const ids = resolveAnimeIds('kitsu', played.kitsuId);
+
+        // Kitsu numbers per entry; if Simkl merged sequels into seasons, use the entry's season
+        const entrySeason = ids?.season?.tvdb;
+        let simklSeason = 1;
+        let simklEpisode = played.episode;
+
+        if (seasons.size > 1 && entrySeason && seasons.has(entrySeason)) {
+            simklSeason = entrySeason;
+        }
+
+        // Single-season entries that don't start at S1E1 (e.g. numbering continued from a prequel)
+        if (seasons.size === 1 && seasonToAbsolute(episodes, simklSeason, simklEpisode) === null) {
+            const converted = absoluteToSeason(episodes, played.episode);
+            if (converted) {
+                simklSeason = converted.season;
+                simklEpisode = converted.episode;
+            }
+        }
+
+        return {
+            simklSeason,
+            simklEpisode,
+            absolute: seasonToAbsolute(episodes, simklSeason, simklEpisode) ?? undefined,
+            anilistId: ids?.anilist,
+            malId: ids?.mal,
+            anilistProgress: played.episode,
+        };
+    }
+
+    // Cinemeta ID: TVDB-style season/episode, which is how Simkl models multi-season anime
+    const season = played.season || 1;
+    const absolute = seasonToAbsolute(episodes, season, played.episode);
+
+    const ids = played.imdbId ? pickImdbEntry(played.imdbId, season) : null;
+
+    // A per-season entry on AniList counts from 1; a single entry for the whole show counts absolute
+    const perSeasonEntry = ids?.season?.tvdb === season;
+    const anilistProgress = perSeasonEntry ? played.episode : (absolute ?? played.episode);
+
+    return {
+        simklSeason: season,
+        simklEpisode: played.episode,
+        absolute: absolute ?? undefined,
+        anilistId: ids?.anilist,
+        malId: ids?.mal,
+        anilistProgress,
+    };
+}
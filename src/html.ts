@@ -0,0 +1,37 @@
+/**
+ * Helpers for the HTML pages the addon serves.
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+};
+
+/**
+ * Escape a value for HTML text and quoted attribute values.
+ */
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '').replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Encode a value as a JavaScript literal for an inline event handler attribute (e.g. onclick).
+ */
+export function jsAttr(value: unknown): string {
+    return escapeHtml(JSON.stringify(value));
+}
+
+/**
+ * Install URL box with "Copy URL" and "Install in Stremio" buttons.
+ */
+export function installLinks(addonUrl: string): string {
+    const stremioUrl = `stremio://${addonUrl.replace(/^https?:\/\//, '')}`;
+    return `
+        <div class="url">${escapeHtml(addonUrl)}</div>
+        <button onclick="navigator.clipboard.writeText(${jsAttr(addonUrl)})">📋 Copy URL</button>
+        <button onclick="location.href = ${jsAttr(stremioUrl)}">🚀 Install in Stremio</button>
+    `;
+}
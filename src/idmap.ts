@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import fetch from 'node-fetch';
+
+/**
+ * Offline anime ID mapping between Kitsu, MAL, AniList, AniDB, TMDB, TVDB and IMDb.
+ * Loaded from a local file in the community anime-lists format
+ * (https://github.com/Fribb/anime-lists) and refreshed periodically from a URL.
+ */
+
+export interface AnimeIds {
+    anidb?: number;
+    kitsu?: number;
+    mal?: number;
+    anilist?: number;
+    tmdb?: number;
+    tvdb?: number;
+    imdb?: string;
+    type?: string;            // TV, MOVIE, OVA, ...
+    season?: { tvdb?: number; tmdb?: number }; // Season of the TVDB/TMDB series this entry covers
+}
+
+export type AnimeIdType = 'anidb' | 'kitsu' | 'mal' | 'anilist' | 'tmdb' | 'tvdb' | 'imdb';
+
+// Raw entry as found in anime-list-full.json
+interface AnimeListEntry {
+    anidb_id?: number;
+    kitsu_id?: number;
+    mal_id?: number;
+    anilist_id?: number;
+    themoviedb_id?: number | string;
+    thetvdb_id?: number;
+    imdb_id?: string;
+    type?: string;
+    season?: { tvdb?: number | string; tmdb?: number | string };
+}
+
+const DEFAULT_LIST_PATH = path.join(process.cwd(), 'data', 'anime-list-full.json');
+const DEFAULT_LIST_URL = 'https://raw.githubusercontent.com/Fribb/anime-lists/master/anime-list-full.json';
+
+const ID_TYPES: AnimeIdType[] = ['anidb', 'kitsu', 'mal', 'anilist', 'tmdb', 'tvdb', 'imdb'];
+
+// One index per ID type; several entries may share an IMDb/TMDB/TVDB ID (one per season/part)
+let indexes: Record<AnimeIdType, Map<string, AnimeIds[]>> = buildIndexes([]);
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+function toNumber(value: unknown): number | undefined {
+    const num = typeof value === 'string' ? parseInt(value, 10) : value;
+    return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+function normalizeEntry(entry: AnimeListEntry): AnimeIds {
+    const imdb = typeof entry.imdb_id === 'string' && entry.imdb_id.startsWith('tt') ? entry.imdb_id : undefined;
+    return {
+        anidb: toNumber(entry.anidb_id),
+        kitsu: toNumber(entry.kitsu_id),
+        mal: toNumber(entry.mal_id),
+        anilist: toNumber(entry.anilist_id),
+        tmdb: toNumber(entry.themoviedb_id),
+        tvdb: toNumber(entry.thetvdb_id),
+        imdb,
+        type: entry.type,
+        season: entry.season
+            ? { tvdb: toNumber(entry.season.tvdb), tmdb: toNumber(entry.season.tmdb) }
+            : undefined,
+    };
+}
+
+function buildIndexes(entries: AnimeListEntry[]): Record<AnimeIdType, Map<string, AnimeIds[]>> {
+    const built = {} as Record<AnimeIdType, Map<string, AnimeIds[]>>;
+    for (const idType of ID_TYPES) {
+        built[idType] = new Map();
+    }
+
+    for (const raw of entries) {
+        const ids = normalizeEntry(raw);
+        for (const idType of ID_TYPES) {
+            const value = ids[idType];
+            if (value === undefined) continue;
+
+            const key = String(value);
+            const existing = built[idType].get(key);
+            if (existing) {
+                existing.push(ids);
+            } else {
+                built[idType].set(key, [ids]);
+            }
+        }
+    }
+
+    return built;
+}
+
+function applyEntries(entries: unknown, source: string): boolean {
+    if (!Array.isArray(entries)) {
+        console.error(`Anime ID mapping from ${source} is not a list, ignoring`);
+        return false;
+    }
+
+    indexes = buildIndexes(entries as AnimeListEntry[]);
+    console.log(`Loaded ${entries.length} anime ID mappings from ${source}`);
+    return true;
+}
+
+/**
+ * Load the mapping file from disk.
+ * Returns false if the file is missing or invalid.
+ */
+function loadFromFile(filePath: string): boolean {
+    if (!fs.existsSync(filePath)) {
+        return false;
+    }
+
+    try {
+        return applyEntries(JSON.parse(fs.readFileSync(filePath, 'utf8')), filePath);
+    } catch (error) {
+        console.error(`Failed to load anime ID mapping from ${filePath}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Download the mapping file, apply it and keep a copy on disk for the next start.
+ */
+async function importFromUrl(url: string, filePath: string): Promise<boolean> {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            console.error(`Anime ID mapping download failed: ${response.status}`);
+            return false;
+        }
+
+        const text = await response.text();
+        if (!applyEntries(JSON.parse(text), url)) {
+            return false;
+        }
+
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, text);
+        return true;
+    } catch (error) {
+        console.error('Anime ID mapping import failed:', error);
+        return false;
+    }
+}
+
+/**
+ * Initialize the anime ID mapping.
+ * Loads the bundled file immediately and schedules periodic imports.
+ * Must be called once when the addon starts.
+ */
+export function initIdMappings(): void {
+    const filePath = process.env.ANIME_LIST_PATH || DEFAULT_LIST_PATH;
+    const url = process.env.ANIME_LIST_URL ?? DEFAULT_LIST_URL;
+    const refreshHours = parseFloat(process.env.ANIME_LIST_REFRESH_HOURS || '24');
+
+    const loaded = loadFromFile(filePath);
+
+    // Empty URL disables imports and keeps the bundled file only
+    if (!url) {
+        if (!loaded) console.warn('No anime ID mapping available, anime ID translation is disabled');
+        return;
+    }
+
+    if (!loaded) {
+        importFromUrl(url, filePath);
+    }
+
+    if (refreshHours > 0 && !refreshTimer) {
+        refreshTimer = setInterval(() => importFromUrl(url, filePath), refreshHours * 60 * 60 * 1000);
+        refreshTimer.unref();
+    }
+}
+
+/**
+ * Find all mapping entries for an ID.
+ * IMDb/TMDB/TVDB IDs can match several entries (one per season or part).
+ */
+export function findAnimeIds(idType: AnimeIdType, id: string | number): AnimeIds[] {
+    return indexes[idType].get(String(id)) || [];
+}
+
+/**
+ * Resolve an ID to the first matching mapping entry, or null if unknown.
+ */
+export function resolveAnimeIds(idType: AnimeIdType, id: string | number): AnimeIds | null {
+    return findAnimeIds(idType, id)[0] || null;
+}
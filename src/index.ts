@@ -1,31 +1,46 @@
 import 'dotenv/config';
 import { addonBuilder, serveHTTP, Args } from 'stremio-addon-sdk';
-import manifest from './manifest';
+import manifest, { buildUserManifest } from './manifest';
 import { encrypt, decrypt } from './crypto';
-import { lookupByImdb, lookupByKitsu, exchangeCodeForToken, getAuthUrl, getUserList, simklItemToStremiometa } from './simkl';
-import { getAniListAuthUrl, updateAnimeProgress, getAniListUser } from './anilist';
-import { scheduleScrobble, initScrobbleWorker, shutdownQueue, ScrobbleJobData } from './queue';
+import {
+  lookupByImdb,
+  lookupByKitsu,
+  exchangeCodeForToken,
+  getAuthUrl,
+  simklItemToCatalogItem,
+  resolveRuntime,
+  ScrobbleTarget,
+  ListStatus,
+  SimklLookup,
+} from './simkl';
+import { getAniListAuthUrl, updateAnimeProgress, getAniListUser, AniListStatus } from './anilist';
+import { scheduleScrobble, hasPendingScrobble, initScrobbleWorker, shutdownQueue, ScrobbleJobData } from './queue';
+import { startPlaybackSession, touchPlaybackSession } from './session';
+import { initIdMappings } from './idmap';
+import { mapAnimeEpisode, AnimeEpisodeMapping } from './episodes';
+import { getSimklMeta } from './meta';
+import { applyCatalogExtra, parseSort, CatalogItem } from './catalog';
+import { getStoredList } from './liststore';
+import { getSimklUpNext, getAniListUpNext } from './upnext';
+import { getSimklCalendar, getAniListCalendar } from './calendar';
+import { searchSimkl, searchAniList, SIMKL_SEARCH_KINDS } from './search';
+import { buildActionStreams, runAction, isStreamAction, describeAction, ActionItem } from './actions';
+import {
+  UserConfig,
+  createProfile,
+  getProfile,
+  saveProfile,
+  isProfileId,
+  resolveUserConfig,
+  reencryptTokens,
+  decryptAniListToken,
+} from './profile';
+import { createOAuthState, consumeOAuthState, setStateCookie, clearStateCookie, getStateCookie } from './oauth-state';
+import { escapeHtml, installLinks } from './html';
+import { parse as parseQuery } from 'querystring';
 
 const MINIMUM_RUNTIME_MINUTES = 5; // Ignore content shorter than 5 minutes
-
-interface UserConfig {
-  token?: string;           // Simkl token
-  anilistToken?: string;    // AniList token
-  threshold?: string;
-  movies?: string;  // '1' or '0'
-  shows?: string;   // '1' or '0'
-  anime?: string;   // '1' or '0'
-  anilistEnabled?: string;  // '1' or '0'
-  catWatchingMovies?: string;
-  catWatchingShows?: string;
-  catWatchingAnime?: string;
-  catPlanMovies?: string;
-  catPlanShows?: string;
-  catPlanAnime?: string;
-  // AniList catalogs
-  aniCatWatchingAnime?: string;
-  aniCatPlanAnime?: string;
-}
+const MAX_TOLERANCE_MINUTES = 30; // Upper bound of the binge tolerance field
 
 /**
  * Parse Stremio ID format.
@@ -64,6 +79,15 @@ function parseStremioId(id: string): {
   return { imdbId, isAnime: false };
 }
 
+/**
+ * Get the ID that per-user state (pending scrobbles, sessions, stored lists) is keyed by.
+ * Profile installs use the profile ID, which survives token re-encryption;
+ * inline-config installs fall back to their encrypted token.
+ */
+function getUserId(config: UserConfig): string {
+  return config.profileId || config.token;
+}
+
 /**
  * Get the scrobble threshold from config or default.
  */
@@ -72,6 +96,31 @@ function getThreshold(config: UserConfig): number {
   return Math.max(0.1, Math.min(1.0, threshold)); // Clamp between 0.1 and 1.0
 }
 
+/**
+ * Get the inactivity window (in ms) from config or default.
+ * A value of 0 disables abandonment detection.
+ */
+function getInactivityMs(config: UserConfig): number {
+  const minutes = parseInt(config.inactivity || process.env.INACTIVITY_TIMEOUT || '0', 10);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+}
+
+/**
+ * Get the binge tolerance (in ms) from config or default.
+ * A pending scrobble due within this window is credited when the next item starts.
+ */
+function getToleranceMs(config: UserConfig): number {
+  return Math.floor(parseToleranceMinutes(config.tolerance || process.env.BINGE_TOLERANCE || '3') * 60 * 1000);
+}
+
+/**
+ * Parse a binge tolerance in minutes (fractions allowed), clamped to the form's range.
+ */
+function parseToleranceMinutes(value: string): number {
+  const minutes = parseFloat(value);
+  return Number.isFinite(minutes) ? Math.max(0, Math.min(MAX_TOLERANCE_MINUTES, minutes)) : 0;
+}
+
 /**
  * Check if a content type is enabled in user config.
  */
@@ -83,6 +132,266 @@ function isTypeEnabled(config: UserConfig, contentType: 'movie' | 'series' | 'an
   return true;
 }
 
+// Catalogs that are only shown when explicitly enabled
+const OPTIONAL_CATALOG_KEYS: Array<keyof UserConfig> = [
+  'catHoldShows',
+  'catHoldAnime',
+  'catCompletedMovies',
+  'catCompletedShows',
+  'catCompletedAnime',
+  'catDroppedMovies',
+  'catDroppedShows',
+  'catDroppedAnime',
+  'aniCatPausedAnime',
+  'aniCatCompletedAnime',
+  'aniCatDroppedAnime',
+  'aniCatRepeatingAnime',
+];
+
+// Catalog ID -> config key that enables it
+const CATALOG_CONFIG_KEYS: Record<string, keyof UserConfig> = {
+  // Simkl
+  'simkl-watching-movies': 'catWatchingMovies',
+  'simkl-watching-shows': 'catWatchingShows',
+  'simkl-watching-anime': 'catWatchingAnime',
+  'simkl-plantowatch-movies': 'catPlanMovies',
+  'simkl-plantowatch-shows': 'catPlanShows',
+  'simkl-plantowatch-anime': 'catPlanAnime',
+  'simkl-upnext': 'catUpNext',
+  'simkl-calendar': 'catCalendar',
+  'simkl-search-movies': 'catSearch',
+  'simkl-search-shows': 'catSearch',
+  'simkl-search-anime': 'catSearch',
+  'simkl-hold-shows': 'catHoldShows',
+  'simkl-hold-anime': 'catHoldAnime',
+  'simkl-completed-movies': 'catCompletedMovies',
+  'simkl-completed-shows': 'catCompletedShows',
+  'simkl-completed-anime': 'catCompletedAnime',
+  'simkl-dropped-movies': 'catDroppedMovies',
+  'simkl-dropped-shows': 'catDroppedShows',
+  'simkl-dropped-anime': 'catDroppedAnime',
+  // AniList
+  'anilist-watching-anime': 'aniCatWatchingAnime',
+  'anilist-plan-anime': 'aniCatPlanAnime',
+  'anilist-upnext-anime': 'aniCatUpNext',
+  'anilist-calendar-anime': 'aniCatCalendar',
+  'anilist-search-anime': 'aniCatSearch',
+  'anilist-paused-anime': 'aniCatPausedAnime',
+  'anilist-completed-anime': 'aniCatCompletedAnime',
+  'anilist-dropped-anime': 'aniCatDroppedAnime',
+  'anilist-repeating-anime': 'aniCatRepeatingAnime',
+};
+
+// AniList catalog ID -> list status
+const ANILIST_CATALOG_STATUSES: Record<string, AniListStatus> = {
+  'anilist-watching-anime': 'CURRENT',
+  'anilist-plan-anime': 'PLANNING',
+  'anilist-paused-anime': 'PAUSED',
+  'anilist-completed-anime': 'COMPLETED',
+  'anilist-dropped-anime': 'DROPPED',
+  'anilist-repeating-anime': 'REPEATING',
+};
+
+/**
+ * Check if a catalog is enabled in user config.
+ * Watching/Plan to Watch default to enabled, the optional status catalogs to disabled.
+ */
+function isCatalogEnabled(config: UserConfig, configKey: keyof UserConfig): boolean {
+  if (OPTIONAL_CATALOG_KEYS.includes(configKey)) return config[configKey] === '1';
+  return config[configKey] !== '0';
+}
+
+/**
+ * Check if a catalog should be advertised in the user's manifest.
+ * AniList catalogs are only shown once AniList is connected.
+ */
+function isCatalogAdvertised(config: UserConfig, catalogId: string): boolean {
+  if (catalogId.startsWith('anilist-') && (!config.anilistToken || config.anilistEnabled === '0')) {
+    return false;
+  }
+  const configKey = CATALOG_CONFIG_KEYS[catalogId];
+  return !configKey || isCatalogEnabled(config, configKey);
+}
+
+/**
+ * Collect custom catalog names ("name:<catalog id>" form fields), skipping empty ones.
+ */
+function parseCatalogNames(query: Record<string, any>): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const catalog of manifest.catalogs) {
+    const name = query[`name:${catalog.id}`];
+    if (typeof name === 'string' && name.trim()) {
+      names[catalog.id] = name.trim();
+    }
+  }
+  return names;
+}
+
+// Checkboxes on the settings page and their defaults
+const TOGGLE_DEFAULTS: Partial<Record<keyof UserConfig, boolean>> = {
+  movies: true, shows: true, anime: true,
+  actions: true,
+  anilistEnabled: false,
+  catWatchingMovies: true, catWatchingShows: true, catWatchingAnime: true,
+  catPlanMovies: true, catPlanShows: true, catPlanAnime: true,
+  aniCatWatchingAnime: true, aniCatPlanAnime: true,
+  catUpNext: true, aniCatUpNext: true,
+  catCalendar: true, aniCatCalendar: true,
+  catSearch: true, aniCatSearch: true,
+  catHoldShows: false, catHoldAnime: false,
+  catCompletedMovies: false, catCompletedShows: false, catCompletedAnime: false,
+  catDroppedMovies: false, catDroppedShows: false, catDroppedAnime: false,
+  aniCatPausedAnime: false, aniCatCompletedAnime: false, aniCatDroppedAnime: false, aniCatRepeatingAnime: false,
+};
+
+const TOGGLE_KEYS = Object.keys(TOGGLE_DEFAULTS) as Array<keyof UserConfig>;
+
+/**
+ * Settings page values for a new install.
+ */
+function defaultSettings(): Record<string, any> {
+  return {
+    ...TOGGLE_DEFAULTS,
+    threshold: '80',
+    inactivity: '0',
+    tolerance: '3',
+    sort: 'added',
+    catalogOrder: '',
+    catalogNames: {},
+  };
+}
+
+/**
+ * Read the submitted settings page (unchecked boxes are simply missing).
+ */
+function settingsFromQuery(query: Record<string, any>): Record<string, any> {
+  const settings: Record<string, any> = {};
+  for (const key of TOGGLE_KEYS) {
+    settings[key] = query[key] === '1';
+  }
+
+  return {
+    ...settings,
+    threshold: query.threshold || '80',
+    inactivity: query.inactivity || '0',
+    tolerance: query.tolerance || '3',
+    sort: query.sort || 'added',
+    catalogOrder: typeof query.catalogOrder === 'string' ? query.catalogOrder : '',
+    catalogNames: parseCatalogNames(query),
+  };
+}
+
+/**
+ * Convert settings page values to addon config (without tokens).
+ */
+function settingsToConfig(settings: Record<string, any>): UserConfig {
+  const config: Record<string, any> = {
+    // Convert threshold from percentage (10-100) to decimal (0.1-1.0)
+    threshold: (parseInt(settings.threshold || '80', 10) / 100).toFixed(2),
+    inactivity: String(Math.max(0, parseInt(settings.inactivity || '0', 10) || 0)),
+    tolerance: String(parseToleranceMinutes(settings.tolerance || '3')),
+    sort: parseSort(settings.sort),
+  };
+  for (const key of TOGGLE_KEYS) {
+    config[key] = settings[key] ? '1' : '0';
+  }
+
+  if (settings.catalogOrder) config.catalogOrder = settings.catalogOrder;
+  if (settings.catalogNames && Object.keys(settings.catalogNames).length > 0) config.catalogNames = settings.catalogNames;
+  return config;
+}
+
+/**
+ * Convert an installed config back to settings page values, for editing.
+ * Keys missing from older configs keep their defaults.
+ */
+function configToSettings(config: UserConfig): Record<string, any> {
+  const settings = defaultSettings();
+  for (const key of TOGGLE_KEYS) {
+    if (config[key] !== undefined) settings[key] = config[key] === '1';
+  }
+  if (config.anilistEnabled === undefined) settings.anilistEnabled = !!config.anilistToken;
+
+  if (config.threshold) settings.threshold = String(Math.round(getThreshold(config) * 100));
+  if (config.inactivity) settings.inactivity = config.inactivity;
+  if (config.tolerance) settings.tolerance = config.tolerance;
+  settings.sort = parseSort(config.sort);
+  settings.catalogOrder = config.catalogOrder || '';
+  settings.catalogNames = config.catalogNames || {};
+  return settings;
+}
+
+/**
+ * Resolve a Stremio ID to its Simkl item and the movie/episode to scrobble.
+ * Anime episodes are mapped to Simkl and AniList numbering.
+ * Returns null if the ID is invalid or not found on Simkl.
+ */
+async function resolveStremioItem(type: string, id: string, accessToken: string): Promise<{
+  displayId: string;
+  lookup: SimklLookup;
+  target: ScrobbleTarget;
+  animeEpisode: AnimeEpisodeMapping | null;
+  malId?: number;
+} | null> {
+  // Parse the Stremio ID
+  const { imdbId, kitsuId, season, episode, isAnime } = parseStremioId(id);
+
+  let lookup;
+  let displayId: string;
+
+  if (isAnime && kitsuId) {
+    // Anime with Kitsu ID
+    displayId = `kitsu:${kitsuId}`;
+    lookup = await lookupByKitsu(kitsuId, accessToken);
+  } else if (imdbId && imdbId.startsWith('tt')) {
+    // Movie/Series with IMDb ID
+    displayId = imdbId;
+    lookup = await lookupByImdb(imdbId, accessToken);
+  } else {
+    console.log(`Invalid ID format: ${id}`);
+    return null;
+  }
+
+  if (!lookup) {
+    console.log(`Could not find ${displayId} in Simkl, skipping`);
+    return null;
+  }
+
+  const { simklId, type: mediaType } = lookup;
+
+  // Determine job type
+  let jobType: 'movie' | 'episode' | 'anime';
+  if (isAnime || mediaType === 'anime') {
+    jobType = 'anime';
+  } else if (type === 'series' && season !== undefined && episode !== undefined) {
+    jobType = 'episode';
+  } else {
+    jobType = 'movie';
+  }
+
+  // Anime numbering differs between Kitsu, Cinemeta, Simkl and AniList
+  let animeEpisode: AnimeEpisodeMapping | null = null;
+  if (jobType === 'anime' && episode !== undefined) {
+    animeEpisode = await mapAnimeEpisode({ kitsuId, imdbId, season, episode }, simklId, accessToken);
+  }
+
+  const target: ScrobbleTarget = {
+    type: jobType,
+    simklId,
+    ...(jobType === 'episode' && { season, episode }),
+    ...(animeEpisode && { season: animeEpisode.simklSeason, episode: animeEpisode.simklEpisode }),
+  };
+
+  return {
+    displayId,
+    lookup,
+    target,
+    animeEpisode,
+    // Prefer MAL ID from Simkl lookup result, then the offline mapping
+    malId: lookup.ids?.mal || animeEpisode?.malId,
+  };
+}
+
 // Build the addon
 const builder = new addonBuilder(manifest);
 
@@ -117,31 +426,16 @@ builder.defineSubtitlesHandler(async ({ type, id, extra, config }: Args & { conf
     return { subtitles: [] };
   }
 
-  // Parse the Stremio ID
-  const { imdbId, kitsuId, season, episode, isAnime } = parseStremioId(id);
-
-  let lookup;
-  let displayId: string;
-
-  if (isAnime && kitsuId) {
-    // Anime with Kitsu ID
-    displayId = `kitsu:${kitsuId}`;
-    lookup = await lookupByKitsu(kitsuId, accessToken);
-  } else if (imdbId && imdbId.startsWith('tt')) {
-    // Movie/Series with IMDb ID
-    displayId = imdbId;
-    lookup = await lookupByImdb(imdbId, accessToken);
-  } else {
-    console.log(`Invalid ID format: ${id}`);
+  const resolved = await resolveStremioItem(type, id, accessToken);
+  if (!resolved) {
     return { subtitles: [] };
   }
 
-  if (!lookup) {
-    console.log(`Could not find ${displayId} in Simkl, skipping scrobble`);
-    return { subtitles: [] };
-  }
+  const { displayId, lookup, target, animeEpisode } = resolved;
+  const { simklId } = target;
 
-  const { simklId, runtime, type: mediaType } = lookup;
+  // Prefer the specific episode's runtime over the show-level one
+  const runtime = await resolveRuntime(target, lookup.runtime, accessToken);
 
   // Check minimum runtime (avoid scrobbling trailers/clips)
   if (runtime < MINIMUM_RUNTIME_MINUTES) {
@@ -149,47 +443,91 @@ builder.defineSubtitlesHandler(async ({ type, id, extra, config }: Args & { conf
     return { subtitles: [] };
   }
 
-  // Calculate delay based on threshold
+  // Tell Simkl we're watching; repeat requests for the same item act as heartbeats
+  const inactivityMs = getInactivityMs(config);
+  const userId = getUserId(config);
+  const session = await startPlaybackSession(userId, {
+    target,
+    title: displayId,
+    runtime,
+    startedAt: Date.now(),
+    stremioId: id,
+  }, accessToken, inactivityMs);
+
+  // Calculate delay based on threshold, minus time already watched
   const threshold = getThreshold(config);
-  const delayMs = Math.floor(runtime * 60 * 1000 * threshold);
+  const elapsedMs = Date.now() - session.startedAt;
+  const delayMs = Math.max(0, Math.floor(runtime * 60 * 1000 * threshold) - elapsedMs);
 
   console.log(`Scheduling scrobble: ${displayId} (Simkl ID: ${simklId})`);
   console.log(`Runtime: ${runtime}m, Threshold: ${threshold * 100}%, Delay: ${Math.round(delayMs / 60000)}m`);
 
-  // Determine job type
-  let jobType: 'movie' | 'episode' | 'anime';
-  if (isAnime || mediaType === 'anime') {
-    jobType = 'anime';
-  } else if (type === 'series' && season !== undefined && episode !== undefined) {
-    jobType = 'episode';
-  } else {
-    jobType = 'movie';
-  }
-
   // Create job data
   const jobData: ScrobbleJobData = {
-    userId: config.token, // Use encrypted token as user ID
-    type: jobType,
+    userId,
+    type: target.type,
     simklId,
-    token: accessToken,
     title: displayId,
-    anilistToken: config.anilistToken,
-    // Try to get MAL ID from Simkl lookup result if available
-    malId: (lookup as any).ids?.mal,
-    ...(jobType === 'episode' && { season, episode }),
-    ...(jobType === 'anime' && { episode }),
+    // Profile jobs look the tokens up when they run; others carry them encrypted
+    ...(!config.profileId && {
+      token: config.token,
+      anilistToken: config.anilistEnabled !== '0' ? config.anilistToken : undefined,
+    }),
+    anilistId: animeEpisode?.anilistId,
+    malId: resolved.malId,
+    season: target.season,
+    episode: target.episode,
+    anilistProgress: animeEpisode?.anilistProgress,
+    runtime,
+    startedAt: session.startedAt,
+    inactivityMs,
+    toleranceMs: getToleranceMs(config),
   };
 
-  // Schedule the scrobble (this also cancels any pending scrobble for this user)
-  await scheduleScrobble(config.token, jobData, delayMs);
+  // Schedule the scrobble (this also cancels, or credits, any pending scrobble for this user)
+  await scheduleScrobble(userId, jobData, delayMs);
 
   // Return empty subtitles - this addon is a passthrough for scrobbling only
   return { subtitles: [] };
 });
 
+// Stream handler - list actions (add to list, mark watched, ...) as entries on the stream list
+builder.defineStreamHandler(async ({ type, id, config }: Args & { config?: UserConfig }) => {
+  if (!config?.token) {
+    return { streams: [] };
+  }
+
+  // Stream requests count as activity for the item being played
+  await touchPlaybackSession(getUserId(config), id)
+    .catch((error) => console.error('Failed to record stream heartbeat:', error));
+
+  if (config.actions === '0') {
+    return { streams: [] };
+  }
+
+  const baseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 7000}`;
+  // Profile installs only put their ID in the URL; older installs carry the whole config
+  const configParam = config.profileId || encodeURIComponent(JSON.stringify(config));
+  const { episode } = parseStremioId(id);
+
+  const streams = buildActionStreams(
+    (action) => `${baseUrl}/action/${configParam}/${action}/${type}/${encodeURIComponent(id)}`,
+    {
+      isMovie: type === 'movie',
+      hasEpisode: episode !== undefined,
+      hasPending: await hasPendingScrobble(getUserId(config)),
+    }
+  );
+
+  return { streams };
+});
+
 // Catalog handler - shows user's watching and plan-to-watch lists
-builder.defineCatalogHandler(async ({ type, id, config }: Args & { config?: UserConfig }) => {
+builder.defineCatalogHandler(async ({ type, id, extra, config }: Args & { config?: UserConfig }) => {
   console.log(`\n[Catalog Request] Type: ${type}, ID: ${id}`);
+  if (extra && Object.keys(extra).length > 0) {
+    console.log('[Catalog Request] Extra:', JSON.stringify(extra));
+  }
 
   // Check for user token
   if (!config?.token) {
@@ -206,22 +544,9 @@ builder.defineCatalogHandler(async ({ type, id, config }: Args & { config?: User
     return { metas: [] };
   }
 
-  // Map catalog ID to config key
-  const catalogConfigMap: Record<string, keyof UserConfig> = {
-    // Simkl
-    'simkl-watching-movies': 'catWatchingMovies',
-    'simkl-watching-shows': 'catWatchingShows',
-    'simkl-watching-anime': 'catWatchingAnime',
-    'simkl-plantowatch-movies': 'catPlanMovies',
-    'simkl-plantowatch-shows': 'catPlanShows',
-    'simkl-plantowatch-anime': 'catPlanAnime',
-    // AniList
-    'anilist-watching-anime': 'aniCatWatchingAnime',
-    'anilist-plan-anime': 'aniCatPlanAnime',
-  };
-
-  const configKey = catalogConfigMap[id];
-  if (configKey && config[configKey] === '0') {
+  // Old installs still list every catalog; answer disabled ones with nothing
+  const configKey = CATALOG_CONFIG_KEYS[id];
+  if (configKey && !isCatalogEnabled(config, configKey)) {
     console.log(`Catalog ${id} is disabled`);
     return { metas: [] };
   }
@@ -233,16 +558,64 @@ builder.defineCatalogHandler(async ({ type, id, config }: Args & { config?: User
       return { metas: [] };
     }
 
-    const aniStatus = id.includes('watching') ? 'CURRENT' : 'PLANNING';
-    const decodedAnilistToken = Buffer.from(config.anilistToken, 'base64').toString();
+    let decodedAnilistToken: string;
+    try {
+      decodedAnilistToken = decryptAniListToken(config.anilistToken);
+    } catch (error) {
+      console.error('Failed to decrypt AniList token:', error);
+      return { metas: [] };
+    }
+
+    if (id === 'anilist-upnext-anime') {
+      const upNext = await getAniListUpNext(decodedAnilistToken);
+      console.log(`Built ${upNext.length} AniList up next items`);
+      return { metas: applyCatalogExtra(upNext, extra, parseSort(config.sort)) };
+    }
+
+    if (id === 'anilist-calendar-anime') {
+      const calendar = await getAniListCalendar(decodedAnilistToken);
+      console.log(`Built ${calendar.length} AniList calendar items`);
+      return { metas: applyCatalogExtra(calendar, { ...extra, sort: undefined }, 'airdate') };
+    }
+
+    if (id === 'anilist-search-anime') {
+      const results = extra?.search ? await searchAniList(extra.search, decodedAnilistToken) : [];
+      console.log(`Found ${results.length} AniList results for "${extra?.search}"`);
+      return { metas: results };
+    }
+
+    const aniStatus = ANILIST_CATALOG_STATUSES[id];
+    if (!aniStatus) return { metas: [] };
 
     // Import here to avoid circular dependencies if any (or just at top)
     // Assuming getAniListUserList is imported at top
     const { getAniListUserList } = await import('./anilist');
 
-    const metas = await getAniListUserList(aniStatus, decodedAnilistToken);
-    console.log(`Fetched ${metas.length} items from AniList catalog ${id}`);
-    return { metas };
+    const items = await getAniListUserList(aniStatus, decodedAnilistToken);
+    console.log(`Fetched ${items.length} items from AniList catalog ${id}`);
+    return { metas: applyCatalogExtra(items, extra, parseSort(config.sort)) };
+  }
+
+  // Handle Simkl Up Next
+  if (id === 'simkl-upnext') {
+    const upNext = await getSimklUpNext(getUserId(config), accessToken);
+    console.log(`Built ${upNext.length} Simkl up next items`);
+    return { metas: applyCatalogExtra(upNext, extra, parseSort(config.sort)) };
+  }
+
+  // Handle Simkl Calendar (always in air date order)
+  if (id === 'simkl-calendar') {
+    const calendar = await getSimklCalendar(getUserId(config), accessToken);
+    console.log(`Built ${calendar.length} Simkl calendar items`);
+    return { metas: applyCatalogExtra(calendar, { ...extra, sort: undefined }, 'airdate') };
+  }
+
+  // Handle Simkl Search (relevance order)
+  const searchKind = SIMKL_SEARCH_KINDS[id];
+  if (searchKind) {
+    const results = extra?.search ? await searchSimkl(searchKind, extra.search) : [];
+    console.log(`Found ${results.length} Simkl ${searchKind} results for "${extra?.search}"`);
+    return { metas: results };
   }
 
   // Handle Simkl Catalogs
@@ -251,20 +624,47 @@ builder.defineCatalogHandler(async ({ type, id, config }: Args & { config?: User
   const parts = id.split('-');
   if (parts.length < 3) return { metas: [] };
 
-  const status = parts[1] as 'watching' | 'plantowatch';
+  const status = parts[1] as ListStatus;
   const listType = parts[2] as 'movies' | 'shows' | 'anime';
 
-  // Fetch the list from Simkl
-  const items = await getUserList(listType, status, accessToken);
-  console.log(`Fetched ${items.length} ${status} ${listType} from Simkl`);
+  // Read the list from the local store (synced from Simkl when it changed)
+  const items = await getStoredList(getUserId(config), listType, status, accessToken);
+  console.log(`Loaded ${items.length} ${status} ${listType} from the Simkl list store`);
 
   // Convert to Stremio meta format
   const stremioType = type === 'movie' ? 'movie' : 'series';
-  const metas = items
-    .map(item => simklItemToStremiometa(item, stremioType))
-    .filter(Boolean);
+  const catalogItems = items
+    .map(item => simklItemToCatalogItem(item, stremioType, listType === 'anime'))
+    .filter(Boolean) as CatalogItem[];
 
-  return { metas };
+  return { metas: applyCatalogExtra(catalogItems, extra, parseSort(config.sort)) };
+});
+
+// Meta handler - detail pages for catalog items that only have a simkl: ID
+builder.defineMetaHandler(async ({ type, id, config }: Args & { config?: UserConfig }) => {
+  console.log(`\n[Meta Request] Type: ${type}, ID: ${id}`);
+
+  // Check for user token
+  if (!config?.token) {
+    console.log('No user token configured');
+    return { meta: null };
+  }
+
+  // Decrypt the access token
+  let accessToken: string;
+  try {
+    accessToken = decrypt(config.token);
+  } catch (error) {
+    console.error('Failed to decrypt token:', error);
+    return { meta: null };
+  }
+
+  const meta = await getSimklMeta(type, id, accessToken);
+  if (!meta) {
+    console.log(`No Simkl details found for ${id}`);
+  }
+
+  return { meta };
 });
 
 // Get the addon interface
@@ -303,10 +703,8 @@ function handleConfigureRequest(req: any, res: any): void {
           <body>
             <h1 class="success">✓ Connected to Simkl!</h1>
             <p>Your addon URL is:</p>
-            <div class="url">${addonUrl}</div>
-            <button onclick="navigator.clipboard.writeText('${addonUrl}')">Copy URL</button>
+            ${installLinks(addonUrl)}
             <p style="margin-top: 20px;">Add this URL to Stremio to enable automatic scrobbling.</p>
-            <p><a href="stremio://${addonUrl.replace(/^https?:\/\//, '')}">Click here to install in Stremio</a></p>
           </body>
           </html>
         `);
@@ -320,7 +718,7 @@ function handleConfigureRequest(req: any, res: any): void {
           <head><title>Error</title></head>
           <body>
             <h1>Authentication Failed</h1>
-            <p>${error.message}</p>
+            <p>${escapeHtml(error.message)}</p>
             <a href="/configure">Try again</a>
           </body>
           </html>
@@ -348,7 +746,7 @@ function handleConfigureRequest(req: any, res: any): void {
         <h1>Simkl Scrobbler</h1>
         <p>Automatically track your movies and TV shows on Simkl.</p>
         <p style="margin: 30px 0;">
-          <a href="${authUrl}" class="button">Connect with Simkl</a>
+          <a href="${escapeHtml(authUrl)}" class="button">Connect with Simkl</a>
         </p>
         <div class="info">
           <p>This addon will scrobble content after you've watched 80% of it.</p>
@@ -366,17 +764,28 @@ const PORT = parseInt(process.env.PORT || '7000', 10);
 // Initialize the scrobble worker
 initScrobbleWorker();
 
+// Load the offline anime ID mapping
+initIdMappings();
+
 // Create Express app with addon routes
 import express from 'express';
 
 const app = express();
 
-// Custom routes for OAuth
-app.get('/configure', (req, res) => {
-  const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
-  const redirectUri = `${baseUrl}/callback`;
-
-  res.send(`
+/**
+ * Render the settings page. When editing an existing install, the saved
+ * settings are applied to the form on load.
+ */
+function renderConfigurePage(options: {
+  formAction: string;
+  submitLabel: string;
+  footnote: string;
+  settings?: Record<string, any>;
+}): string {
+  // Keep "</script>" in saved names from ending the script block
+  const savedSettings = JSON.stringify(options.settings || null).replace(/</g, '\\u003c');
+
+  return `
       <!DOCTYPE html>
       <html>
       <head>
@@ -407,6 +816,10 @@ app.get('/configure', (req, res) => {
           
           .threshold-container { display: flex; align-items: center; gap: 15px; background: #0f172a; padding: 15px; border-radius: 8px; }
           
+          .catalog-row { display: flex; align-items: center; gap: 8px; margin: 8px 0; }
+          .catalog-row input { flex: 1; padding: 6px; border-radius: 6px; border: 1px solid #334155; background: #0f172a; color: #f1f5f9; }
+          .catalog-row button { background: #334155; color: #e2e8f0; border: none; padding: 6px 10px; border-radius: 6px; cursor: pointer; }
+          
           @media (max-width: 768px) {
             .grid { grid-template-columns: 1fr; }
           }
@@ -417,7 +830,7 @@ app.get('/configure', (req, res) => {
         <h1>Simkl Scrobbler</h1>
         <p class="subtitle">Sync your watch history across platforms</p>
         
-        <form id="configForm" action="/auth" method="GET">
+        <form id="configForm" action="${escapeHtml(options.formAction)}" method="GET">
           <div class="grid">
             <!-- Simkl Column -->
             <div class="card">
@@ -437,6 +850,12 @@ app.get('/configure', (req, res) => {
                 <label for="anime">🌸 Anime</label>
               </div>
               
+              <div class="section-title">Actions</div>
+              <div class="option">
+                <input type="checkbox" id="actions" name="actions" value="1" checked>
+                <label for="actions">⚡ Add to list / mark watched from the stream list</label>
+              </div>
+              
               <div class="section-title">Catalogs (Watching)</div>
               <div class="option">
                 <input type="checkbox" id="catWatchingMovies" name="catWatchingMovies" value="1" checked>
@@ -464,6 +883,62 @@ app.get('/configure', (req, res) => {
                 <input type="checkbox" id="catPlanAnime" name="catPlanAnime" value="1" checked>
                 <label for="catPlanAnime">🌸 Anime</label>
               </div>
+              
+              <div class="section-title">Catalogs (Up Next)</div>
+              <div class="option">
+                <input type="checkbox" id="catUpNext" name="catUpNext" value="1" checked>
+                <label for="catUpNext">⏭️ Next episode of Shows &amp; Anime</label>
+              </div>
+              
+              <div class="section-title">Catalogs (Calendar)</div>
+              <div class="option">
+                <input type="checkbox" id="catCalendar" name="catCalendar" value="1" checked>
+                <label for="catCalendar">📅 Upcoming &amp; just-aired episodes</label>
+              </div>
+              
+              <div class="section-title">Catalogs (Search)</div>
+              <div class="option">
+                <input type="checkbox" id="catSearch" name="catSearch" value="1" checked>
+                <label for="catSearch">🔍 Search Simkl from Stremio</label>
+              </div>
+              
+              <div class="section-title">Catalogs (On Hold)</div>
+              <div class="option">
+                <input type="checkbox" id="catHoldShows" name="catHoldShows" value="1">
+                <label for="catHoldShows">📺 Shows</label>
+              </div>
+              <div class="option">
+                <input type="checkbox" id="catHoldAnime" name="catHoldAnime" value="1">
+                <label for="catHoldAnime">🌸 Anime</label>
+              </div>
+              
+              <div class="section-title">Catalogs (Completed)</div>
+              <div class="option">
+                <input type="checkbox" id="catCompletedMovies" name="catCompletedMovies" value="1">
+                <label for="catCompletedMovies">🎥 Movies</label>
+              </div>
+              <div class="option">
+                <input type="checkbox" id="catCompletedShows" name="catCompletedShows" value="1">
+                <label for="catCompletedShows">📺 Shows</label>
+              </div>
+              <div class="option">
+                <input type="checkbox" id="catCompletedAnime" name="catCompletedAnime" value="1">
+                <label for="catCompletedAnime">🌸 Anime</label>
+              </div>
+              
+              <div class="section-title">Catalogs (Dropped)</div>
+              <div class="option">
+                <input type="checkbox" id="catDroppedMovies" name="catDroppedMovies" value="1">
+                <label for="catDroppedMovies">🎥 Movies</label>
+              </div>
+              <div class="option">
+                <input type="checkbox" id="catDroppedShows" name="catDroppedShows" value="1">
+                <label for="catDroppedShows">📺 Shows</label>
+              </div>
+              <div class="option">
+                <input type="checkbox" id="catDroppedAnime" name="catDroppedAnime" value="1">
+                <label for="catDroppedAnime">🌸 Anime</label>
+              </div>
             </div>
             
             <!-- AniList Column -->
@@ -489,6 +964,48 @@ app.get('/configure', (req, res) => {
                   <input type="checkbox" id="aniCatPlanAnime" name="aniCatPlanAnime" value="1" checked>
                   <label for="aniCatPlanAnime">🌸 Anime</label>
                 </div>
+                
+                <div class="section-title">Catalogs (Up Next)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatUpNext" name="aniCatUpNext" value="1" checked>
+                  <label for="aniCatUpNext">⏭️ Next episode</label>
+                </div>
+                
+                <div class="section-title">Catalogs (Calendar)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatCalendar" name="aniCatCalendar" value="1" checked>
+                  <label for="aniCatCalendar">📅 Airing schedule</label>
+                </div>
+                
+                <div class="section-title">Catalogs (Search)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatSearch" name="aniCatSearch" value="1" checked>
+                  <label for="aniCatSearch">🔍 Search AniList from Stremio</label>
+                </div>
+                
+                <div class="section-title">Catalogs (Paused)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatPausedAnime" name="aniCatPausedAnime" value="1">
+                  <label for="aniCatPausedAnime">🌸 Anime</label>
+                </div>
+                
+                <div class="section-title">Catalogs (Completed)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatCompletedAnime" name="aniCatCompletedAnime" value="1">
+                  <label for="aniCatCompletedAnime">🌸 Anime</label>
+                </div>
+                
+                <div class="section-title">Catalogs (Dropped)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatDroppedAnime" name="aniCatDroppedAnime" value="1">
+                  <label for="aniCatDroppedAnime">🌸 Anime</label>
+                </div>
+                
+                <div class="section-title">Catalogs (Rewatching)</div>
+                <div class="option">
+                  <input type="checkbox" id="aniCatRepeatingAnime" name="aniCatRepeatingAnime" value="1">
+                  <label for="aniCatRepeatingAnime">🌸 Anime</label>
+                </div>
               </div>
             </div>
             
@@ -504,12 +1021,55 @@ app.get('/configure', (req, res) => {
                 <span id="thresholdValue" style="min-width: 45px; color: #f1f5f9; font-weight: bold; font-size: 18px;">80%</span>
               </div>
               <div class="option-desc" style="margin-top: 10px; margin-left: 0;">Mark as watched after watching this percentage of content</div>
+
+              <div class="section-title">Inactivity Timeout</div>
+              <div class="threshold-container">
+                <input type="number" id="inactivity" name="inactivity" min="0" max="600" value="0"
+                       style="width: 80px; padding: 6px; border-radius: 6px; border: 1px solid #334155; background: #1e293b; color: #f1f5f9;">
+                <span style="color: #94a3b8;">minutes</span>
+              </div>
+              <div class="option-desc" style="margin-top: 10px; margin-left: 0;">Skip the scrobble if Stremio hasn't checked in (seek, track change, resume) for this long. Stremio is quiet during normal playback, so a value below the scrobble delay (threshold × runtime) also skips viewings without a seek. 0 = off</div>
+
+              <div class="section-title">Binge Tolerance</div>
+              <div class="threshold-container">
+                <input type="number" id="tolerance" name="tolerance" min="0" max="${MAX_TOLERANCE_MINUTES}" step="any" value="3"
+                       style="width: 80px; padding: 6px; border-radius: 6px; border: 1px solid #334155; background: #1e293b; color: #f1f5f9;">
+                <span style="color: #94a3b8;">minutes</span>
+              </div>
+              <div class="option-desc" style="margin-top: 10px; margin-left: 0;">Still mark the previous episode as watched if the next one starts this close to the threshold (e.g. skipped credits)</div>
+
+              <div class="section-title">Catalog Sort Order</div>
+              <div class="threshold-container">
+                <select id="sort" name="sort"
+                        style="padding: 6px; border-radius: 6px; border: 1px solid #334155; background: #1e293b; color: #f1f5f9;">
+                  <option value="added" selected>Date Added</option>
+                  <option value="title">Title</option>
+                  <option value="year">Year</option>
+                  <option value="rating">Rating</option>
+                </select>
+              </div>
+              <div class="option-desc" style="margin-top: 10px; margin-left: 0;">Default order of your lists in Stremio</div>
+            </div>
+            
+            <!-- Catalog Rows (Full Width) -->
+            <div class="card full-width">
+              <h2>🗂️ Catalog Rows</h2>
+              <div class="option-desc" style="margin-left: 0;">Order the rows as they should appear in Stremio and optionally rename them. Empty names keep the default; disabled catalogs are hidden.</div>
+              <div id="catalogRows">
+                ${manifest.catalogs.map((catalog: any) => `
+                <div class="catalog-row" data-id="${escapeHtml(catalog.id)}">
+                  <input type="text" name="name:${escapeHtml(catalog.id)}" placeholder="${escapeHtml(catalog.name)}" maxlength="60">
+                  <button type="button" onclick="moveRow(this, -1)">▲</button>
+                  <button type="button" onclick="moveRow(this, 1)">▼</button>
+                </div>`).join('')}
+              </div>
+              <input type="hidden" id="catalogOrder" name="catalogOrder" value="">
             </div>
           </div>
           
           <div style="margin-top: 40px;">
-            <button type="submit" class="button">Connect with Simkl →</button>
-            <p style="margin-top: 15px; color: #64748b; font-size: 13px;">You'll be asked to connect AniList (optional) after Simkl.</p>
+            <button type="submit" class="button">${escapeHtml(options.submitLabel)}</button>
+            <p style="margin-top: 15px; color: #64748b; font-size: 13px;">${escapeHtml(options.footnote)}</p>
           </div>
         </form>
         
@@ -520,35 +1080,62 @@ app.get('/configure', (req, res) => {
             container.style.opacity = enabled ? '1' : '0.5';
             container.style.pointerEvents = enabled ? 'auto' : 'none';
           }
+          function moveRow(button, direction) {
+            const row = button.parentElement;
+            const sibling = direction < 0 ? row.previousElementSibling : row.nextElementSibling;
+            if (!sibling) return;
+            row.parentElement.insertBefore(row, direction < 0 ? sibling : sibling.nextElementSibling);
+          }
+          function applySettings(saved) {
+            Object.keys(saved).forEach(function (key) {
+              const input = document.querySelector('#configForm [name="' + key + '"]');
+              if (!input) return;
+              if (input.type === 'checkbox') input.checked = !!saved[key];
+              else input.value = saved[key];
+            });
+            Object.keys(saved.catalogNames || {}).forEach(function (id) {
+              const input = document.querySelector('#configForm [name="name:' + id + '"]');
+              if (input) input.value = saved.catalogNames[id];
+            });
+            const container = document.getElementById('catalogRows');
+            (saved.catalogOrder || '').split(',').reverse().forEach(function (id) {
+              const row = container.querySelector('[data-id="' + id + '"]');
+              if (row) container.insertBefore(row, container.firstElementChild);
+            });
+            document.getElementById('thresholdValue').textContent = document.getElementById('threshold').value + '%';
+          }
+          document.getElementById('configForm').addEventListener('submit', function () {
+            const rows = document.querySelectorAll('#catalogRows .catalog-row');
+            document.getElementById('catalogOrder').value = Array.from(rows).map(function (row) { return row.dataset.id; }).join(',');
+          });
           // Init state
+          const savedSettings = ${savedSettings};
+          if (savedSettings) applySettings(savedSettings);
           toggleAniListOptions();
         </script>
       </body>
       </html>
-    `);
+    `;
+}
+
+// Custom routes for OAuth
+app.get('/configure', (req, res) => {
+  res.send(renderConfigurePage({
+    formAction: '/auth',
+    submitLabel: 'Connect with Simkl →',
+    footnote: "You'll be asked to connect AniList (optional) after Simkl.",
+  }));
 });
 
-app.get('/auth', (req, res) => {
+app.get('/auth', async (req, res) => {
   const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
-  // Store settings in state parameter
-  const settings = {
-    movies: req.query.movies === '1',
-    shows: req.query.shows === '1',
-    anime: req.query.anime === '1',
-    anilistEnabled: req.query.anilistEnabled === '1',
-    catWatchingMovies: req.query.catWatchingMovies === '1',
-    catWatchingShows: req.query.catWatchingShows === '1',
-    catWatchingAnime: req.query.catWatchingAnime === '1',
-    catPlanMovies: req.query.catPlanMovies === '1',
-    catPlanShows: req.query.catPlanShows === '1',
-    catPlanAnime: req.query.catPlanAnime === '1',
-    aniCatWatchingAnime: req.query.aniCatWatchingAnime === '1',
-    aniCatPlanAnime: req.query.aniCatPlanAnime === '1',
-    threshold: req.query.threshold || '80',
-  };
-  const state = Buffer.from(JSON.stringify(settings)).toString('base64');
+  // Keep the settings server-side until the callback; only the signed state goes through Simkl
+  const settings = settingsFromQuery(req.query);
+
+  const state = await createOAuthState('simkl', settings);
+  setStateCookie(res, 'simkl', state);
   const redirectUri = `${baseUrl}/callback`;
-  const authUrl = getAuthUrl(redirectUri) + `&state=${state}`;
+  const authUrl = getAuthUrl(redirectUri) + `&state=${encodeURIComponent(state)}`;
   res.redirect(authUrl);
 });
 
@@ -563,21 +1150,12 @@ app.get('/callback', async (req, res) => {
     return;
   }
 
-  // Decode settings from state
-  let settings: any = {
-    movies: true, shows: true, anime: true,
-    anilistEnabled: false,
-    catWatchingMovies: true, catWatchingShows: true, catWatchingAnime: true,
-    catPlanMovies: true, catPlanShows: true, catPlanAnime: true,
-    aniCatWatchingAnime: true, aniCatPlanAnime: true,
-    threshold: '80'
-  };
-  if (state) {
-    try {
-      settings = JSON.parse(Buffer.from(state, 'base64').toString());
-    } catch (e) {
-      console.warn('Failed to parse state, using defaults');
-    }
+  // Settings were kept server-side by /auth; the state must be signed, unexpired and unused
+  const settings = await consumeOAuthState('simkl', state, getStateCookie(req.headers.cookie, 'simkl'));
+  clearStateCookie(res, 'simkl');
+  if (!settings) {
+    res.status(400).send('This sign-in link has expired, was already used or was opened in another browser. Please <a href="/configure">start again</a>.');
+    return;
   }
 
   try {
@@ -585,26 +1163,11 @@ app.get('/callback', async (req, res) => {
     const encryptedToken = encrypt(accessToken);
 
     // Include settings in addon config
-    // Convert threshold from percentage (10-100) to decimal (0.1-1.0)
-    const thresholdDecimal = (parseInt(settings.threshold || '80', 10) / 100).toFixed(2);
-
-    const config: any = {
-      token: encryptedToken,
-      threshold: thresholdDecimal,
-      movies: settings.movies ? '1' : '0',
-      shows: settings.shows ? '1' : '0',
-      anime: settings.anime ? '1' : '0',
-      anilistEnabled: settings.anilistEnabled ? '1' : '0',
-      catWatchingMovies: settings.catWatchingMovies ? '1' : '0',
-      catWatchingShows: settings.catWatchingShows ? '1' : '0',
-      catWatchingAnime: settings.catWatchingAnime ? '1' : '0',
-      catPlanMovies: settings.catPlanMovies ? '1' : '0',
-      catPlanShows: settings.catPlanShows ? '1' : '0',
-      catPlanAnime: settings.catPlanAnime ? '1' : '0',
-      aniCatWatchingAnime: settings.aniCatWatchingAnime ? '1' : '0',
-      aniCatPlanAnime: settings.aniCatPlanAnime ? '1' : '0',
-    };
-    const addonUrl = `${baseUrl}/${encodeURIComponent(JSON.stringify(config))}/manifest.json`;
+    const config: UserConfig = { token: encryptedToken, ...settingsToConfig(settings) };
+
+    // Settings and tokens stay on the server; the install URL only carries the profile ID
+    const profileId = await createProfile(config);
+    const addonUrl = `${baseUrl}/${profileId}/manifest.json`;
 
     // Show which content types are enabled
     const enabledScrobble = [];
@@ -619,10 +1182,28 @@ app.get('/callback', async (req, res) => {
     if (settings.catPlanMovies) enabledCatalogs.push('📋 Movies');
     if (settings.catPlanShows) enabledCatalogs.push('📋 Shows');
     if (settings.catPlanAnime) enabledCatalogs.push('📋 Anime');
+    if (settings.catUpNext) enabledCatalogs.push('⏭️ Up Next');
+    if (settings.catCalendar) enabledCatalogs.push('📅 Calendar');
+    if (settings.catSearch) enabledCatalogs.push('🔍 Search');
+    if (settings.catHoldShows) enabledCatalogs.push('⏸️ Shows');
+    if (settings.catHoldAnime) enabledCatalogs.push('⏸️ Anime');
+    if (settings.catCompletedMovies) enabledCatalogs.push('✅ Movies');
+    if (settings.catCompletedShows) enabledCatalogs.push('✅ Shows');
+    if (settings.catCompletedAnime) enabledCatalogs.push('✅ Anime');
+    if (settings.catDroppedMovies) enabledCatalogs.push('🗑️ Movies');
+    if (settings.catDroppedShows) enabledCatalogs.push('🗑️ Shows');
+    if (settings.catDroppedAnime) enabledCatalogs.push('🗑️ Anime');
 
     const enabledAniListCatalogs = [];
     if (settings.aniCatWatchingAnime) enabledAniListCatalogs.push('👀 Anime');
     if (settings.aniCatPlanAnime) enabledAniListCatalogs.push('📋 Anime');
+    if (settings.aniCatUpNext) enabledAniListCatalogs.push('⏭️ Up Next');
+    if (settings.aniCatCalendar) enabledAniListCatalogs.push('📅 Calendar');
+    if (settings.aniCatSearch) enabledAniListCatalogs.push('🔍 Search');
+    if (settings.aniCatPausedAnime) enabledAniListCatalogs.push('⏸️ Anime');
+    if (settings.aniCatCompletedAnime) enabledAniListCatalogs.push('✅ Anime');
+    if (settings.aniCatDroppedAnime) enabledAniListCatalogs.push('🗑️ Anime');
+    if (settings.aniCatRepeatingAnime) enabledAniListCatalogs.push('🔁 Anime');
 
     const anilistSection = settings.anilistEnabled ? `
             <div class="enabled" style="border: 1px solid #0ea5e9;">
@@ -630,7 +1211,7 @@ app.get('/callback', async (req, res) => {
               <span class="enabled-item">⏳ Not connected yet</span>
               ${enabledAniListCatalogs.length > 0 ? `<div style="margin-top: 8px; font-size: 11px; color: #94a3b8;">Catalogs: ${enabledAniListCatalogs.join(', ')}</div>` : ''}
               <p style="margin: 10px 0 0 0;">
-                <a href="/anilist-auth?config=${encodeURIComponent(JSON.stringify(config))}" 
+                <a href="/anilist-auth?profile=${profileId}" 
                    style="background: #0ea5e9; color: white; padding: 10px 20px; border-radius: 6px; text-decoration: none; display: inline-block;">
                   Connect AniList →
                 </a>
@@ -671,12 +1252,10 @@ app.get('/callback', async (req, res) => {
             ${anilistSection}
             
             <p>${settings.anilistEnabled ? 'Install now (Simkl only) or connect AniList first:' : 'Your addon URL:'}</p>
-            <div class="url">${addonUrl}</div>
-            <button onclick="navigator.clipboard.writeText('${addonUrl}')">📋 Copy URL</button>
-            <button onclick="location.href='stremio://${addonUrl.replace(/^https?:\/\//, '')}'">🚀 Install in Stremio</button>
+            ${installLinks(addonUrl)}
             
             <p style="margin-top: 30px; color: #64748b; font-size: 13px;">
-              <a href="/configure">← Reconfigure settings</a>
+              <a href="/${profileId}/configure">← Edit settings</a>
             </p>
           </body>
           </html>
@@ -689,7 +1268,7 @@ app.get('/callback', async (req, res) => {
           <head><title>Error</title></head>
           <body>
             <h1>Authentication Failed</h1>
-            <p>${error.message}</p>
+            <p>${escapeHtml(error.message)}</p>
             <a href="/configure">Try again</a>
           </body>
           </html>
@@ -702,13 +1281,18 @@ import { getRouter } from 'stremio-addon-sdk';
 
 // AniList OAuth routes (uses implicit grant - token in URL fragment)
 // AniList OAuth routes (uses Authorization Code Grant)
-app.get('/anilist-auth', (req, res) => {
+app.get('/anilist-auth', async (req, res) => {
   const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
   const redirectUri = `${baseUrl}/anilist-callback`;
-  const configParam = req.query.config as string || '';
-  // Pass config in the 'state' parameter (it's already URL encoded JSON, but let's be safe)
-  // AniList 'state' parameter is preserved in the redirect
-  const authUrl = getAniListAuthUrl(redirectUri) + `&state=${configParam}`;
+  const profileId = req.query.profile as string || '';
+  if (!isProfileId(profileId)) {
+    res.status(400).send('Invalid profile');
+    return;
+  }
+  // The profile ID stays server-side; AniList only carries the signed state back to the callback
+  const state = await createOAuthState('anilist', { profileId });
+  setStateCookie(res, 'anilist', state);
+  const authUrl = getAniListAuthUrl(redirectUri) + `&state=${encodeURIComponent(state)}`;
 
   res.redirect(authUrl);
 });
@@ -716,13 +1300,21 @@ app.get('/anilist-auth', (req, res) => {
 // AniList callback - handles Authorization Code Grant
 app.get('/anilist-callback', async (req, res) => {
   const code = req.query.code as string;
-  const configParam = req.query.state as string; // We'll pass config in 'state' now
 
   if (!code) {
     res.send('Error: check console for details');
     return;
   }
 
+  // Profile ID saved by /anilist-auth
+  const state = await consumeOAuthState('anilist', req.query.state as string, getStateCookie(req.headers.cookie, 'anilist'));
+  clearStateCookie(res, 'anilist');
+  const profileId = state?.profileId;
+  if (!isProfileId(profileId)) {
+    res.status(400).send('This sign-in link has expired, was already used or was opened in another browser. Please <a href="/configure">start again</a>.');
+    return;
+  }
+
   try {
     const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
     const redirectUri = `${baseUrl}/anilist-callback`;
@@ -731,22 +1323,20 @@ app.get('/anilist-callback', async (req, res) => {
     const { exchangeAniListCodeForToken } = await import('./anilist');
 
     const accessToken = await exchangeAniListCodeForToken(code, redirectUri);
-    const encodedToken = Buffer.from(accessToken).toString('base64');
-
-    // Parse pending config
-    let config: any = {};
-    if (configParam) {
-      try {
-        config = JSON.parse(decodeURIComponent(configParam));
-      } catch (e) {
-        console.error('Failed to parse config:', e);
-      }
+    const encryptedToken = encrypt(accessToken);
+
+    // Load the profile created by the Simkl callback
+    const config = await getProfile(profileId);
+    if (!config) {
+      res.status(400).send('Your setup session has expired. Please <a href="/configure">start again</a>.');
+      return;
     }
 
     // Add AniList token
-    config.anilistToken = encodedToken;
+    config.anilistToken = encryptedToken;
+    await saveProfile(profileId, config);
 
-    const addonUrl = `${baseUrl}/${encodeURIComponent(JSON.stringify(config))}/manifest.json`;
+    const addonUrl = `${baseUrl}/${profileId}/manifest.json`;
 
     res.send(`
       <!DOCTYPE html>
@@ -766,17 +1356,226 @@ app.get('/anilist-callback', async (req, res) => {
         <p>Your setup is complete.</p>
         
         <p>Your final addon URL:</p>
-        <div class="url">${addonUrl}</div>
-        
-        <button onclick="navigator.clipboard.writeText('${addonUrl}')">📋 Copy URL</button>
-        <button onclick="location.href='stremio://${addonUrl.replace(/^https?:\/\//, '')}'">🚀 Install in Stremio</button>
+        ${installLinks(addonUrl)}
       </body>
       </html>
     `);
 
   } catch (error: any) {
     console.error('AniList auth error:', error);
-    res.status(500).send(`Authentication failed: ${error.message}`);
+    res.status(500).send(`Authentication failed: ${escapeHtml(error.message)}`);
+  }
+});
+
+// Settings page for an installed addon (Stremio's "Configure" button)
+app.get('/:config/configure', async (req, res) => {
+  const config = await resolveUserConfig(req.params.config);
+  if (!config?.token) {
+    res.redirect('/configure');
+    return;
+  }
+
+  res.send(renderConfigurePage({
+    formAction: `/${encodeURIComponent(req.params.config)}/save`,
+    submitLabel: 'Save Settings',
+    footnote: 'Simkl and AniList stay connected, no need to sign in again.',
+    settings: configToSettings(config),
+  }));
+});
+
+// Save edited settings, keeping the connected accounts
+app.get('/:config/save', async (req, res) => {
+  const baseUrl = process.env.BASE_URL || `http://localhost:${PORT}`;
+  const config = await resolveUserConfig(req.params.config);
+  if (!config?.token) {
+    res.redirect('/configure');
+    return;
+  }
+
+  // Keep the connected accounts, moving their tokens to the newest key
+  const tokens = reencryptTokens(config) || config;
+  const updated: UserConfig = {
+    token: tokens.token,
+    anilistToken: tokens.anilistToken,
+    ...settingsToConfig(settingsFromQuery(req.query)),
+  };
+
+  // Profiles are updated in place; inline-config installs move to a new profile
+  let profileId = config.profileId;
+  if (profileId) {
+    await saveProfile(profileId, updated);
+  } else {
+    profileId = await createProfile(updated);
+  }
+
+  const addonUrl = `${baseUrl}/${profileId}/manifest.json`;
+  const needsAniList = updated.anilistEnabled === '1' && !updated.anilistToken;
+
+  res.send(`
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>Settings Saved</title>
+        <style>
+          body { font-family: -apple-system, sans-serif; max-width: 600px; margin: 50px auto; padding: 20px; background: #0f172a; color: #e2e8f0; text-align: center; }
+          .success { color: #22c55e; font-size: 24px; margin-bottom: 20px; }
+          .url { background: #1e293b; padding: 15px; border-radius: 8px; word-break: break-all; font-size: 13px; color: #94a3b8; margin: 20px 0; }
+          button { background: #8B5CF6; color: white; border: none; padding: 12px 24px; border-radius: 6px; cursor: pointer; margin: 5px; font-size: 14px; font-weight: bold; }
+          button:hover { background: #7C3AED; }
+          a { color: #8B5CF6; }
+        </style>
+      </head>
+      <body>
+        <div class="success">✓ Settings saved!</div>
+        ${config.profileId
+          ? '<p>Scrobbling settings apply right away. Stremio picks up catalog changes when it refreshes the addon; reinstall to see them now.</p>'
+          : '<p>Your addon now uses a short install link. Install it once more to switch to it.</p>'}
+        
+        ${installLinks(addonUrl)}
+        ${needsAniList ? `
+        <p style="margin-top: 20px;">
+          <a href="/anilist-auth?profile=${profileId}">Connect AniList →</a>
+        </p>` : ''}
+        
+        <p style="margin-top: 30px; color: #64748b; font-size: 13px;">
+          <a href="/${profileId}/configure">← Edit settings</a>
+        </p>
+      </body>
+      </html>
+    `);
+});
+
+/**
+ * Small result page for list actions, which Stremio opens in the browser.
+ */
+function actionResultPage(title: string, message: string, success: boolean): string {
+  return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body { font-family: -apple-system, sans-serif; max-width: 600px; margin: 50px auto; padding: 20px; background: #0f172a; color: #e2e8f0; text-align: center; }
+          .result { color: ${success ? '#4ade80' : '#f87171'}; font-size: 24px; margin-bottom: 20px; }
+        </style>
+      </head>
+      <body>
+        <div class="result">${success ? '✓' : '✗'} ${escapeHtml(title)}</div>
+        <p>${escapeHtml(message)}</p>
+        <p style="color: #64748b; font-size: 13px;">You can close this tab and return to Stremio.</p>
+      </body>
+      </html>
+    `;
+}
+
+// List actions opened from the stream list
+app.get('/action/:config/:action/:type/:id', async (req, res) => {
+  const { action, type, id } = req.params;
+
+  const config = await resolveUserConfig(req.params.config);
+  if (!config?.token || !isStreamAction(action)) {
+    res.status(400).send('Invalid action');
+    return;
+  }
+
+  let accessToken: string;
+  try {
+    accessToken = decrypt(config.token);
+  } catch (error) {
+    console.error('Failed to decrypt token:', error);
+    res.status(400).send('Invalid addon configuration');
+    return;
+  }
+
+  let anilistToken: string | undefined;
+  if (config.anilistToken && config.anilistEnabled !== '0') {
+    try {
+      anilistToken = decryptAniListToken(config.anilistToken);
+    } catch (error) {
+      // Still run the Simkl side of the action
+      console.error('Failed to decrypt AniList token:', error);
+    }
+  }
+
+  console.log(`\n[Action] ${action} for ${type} ${id}`);
+
+  try {
+    let item: ActionItem | null = null;
+    if (action !== 'cancel') {
+      const resolved = await resolveStremioItem(type, id, accessToken);
+      if (!resolved) {
+        res.status(404).send(actionResultPage(describeAction(action), 'This title could not be found on Simkl.', false));
+        return;
+      }
+
+      item = {
+        target: resolved.target,
+        title: resolved.displayId,
+        anilistId: resolved.animeEpisode?.anilistId,
+        malId: resolved.malId,
+        anilistProgress: resolved.animeEpisode?.anilistProgress,
+      };
+    }
+
+    const success = await runAction(action, getUserId(config), item, accessToken, anilistToken);
+    const message = success
+      ? (action === 'cancel' ? 'Nothing will be scrobbled for what you were watching.' : 'Your Simkl list has been updated.')
+      : (action === 'cancel' ? 'There was no pending scrobble to cancel.' : 'Simkl did not accept the change. Please try again later.');
+
+    res.status(success || action === 'cancel' ? 200 : 502).send(actionResultPage(describeAction(action), message, success));
+  } catch (error: any) {
+    console.error(`Action ${action} failed:`, error);
+    res.status(500).send(actionResultPage(describeAction(action), 'Something went wrong. Please try again later.', false));
+  }
+});
+
+// Per-user manifest: only the enabled catalogs, in the user's order and with their names
+app.get('/:config/manifest.json', async (req, res) => {
+  const config = await resolveUserConfig(req.params.config);
+  if (!config) {
+    res.status(404).json({ err: 'unknown profile' });
+    return;
+  }
+
+  const userManifest = buildUserManifest(
+    (catalogId) => isCatalogAdvertised(config, catalogId),
+    (config.catalogOrder || '').split(',').filter(Boolean),
+    config.catalogNames
+  );
+
+  // CORS is mandatory for the addon protocol
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.json(userManifest);
+});
+
+// Addon resources for configured installs. Inline JSON configs go through
+// resolveUserConfig too, so they can't pose as a profile; the SDK router only
+// serves unconfigured requests.
+app.get('/:config/:resource/:type/:id/:extra?.json', async (req, res, next) => {
+  const config = await resolveUserConfig(req.params.config);
+  if (!config) {
+    if (isProfileId(req.params.config)) {
+      res.status(404).json({ err: 'unknown profile' });
+    } else {
+      next();
+    }
+    return;
+  }
+
+  const { resource, type, id } = req.params;
+  // Parse extra from the raw URL like the SDK does, so encoded '&' in values survive
+  const extra = req.params.extra ? parseQuery(req.path.split('/').pop().slice(0, -5)) : {};
+
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  try {
+    res.json(await addonInterface.get(resource, type, id, extra, config));
+  } catch (error: any) {
+    if (error?.noHandler) {
+      res.status(404).json({ err: 'not found' });
+      return;
+    }
+    console.error(`Failed to handle ${resource} request:`, error);
+    res.status(500).json({ err: 'handler error' });
   }
 });
 
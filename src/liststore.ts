@@ -0,0 +1,135 @@
+import redis from './redis';
+import { getActivities, getAllItems, SimklActivities, SimklListItem, ListType, ListStatus } from './simkl';
+
+/**
+ * Per-user copy of the Simkl lists, refreshed only when /sync/activities says
+ * something changed. Changes are fetched as deltas (date_from) where possible.
+ */
+
+interface StoredList {
+    items: SimklListItem[];
+    activity?: string;        // Section "all" timestamp the items are current for, used as the next date_from
+    removedAt?: string;       // Section "removed_from_list" timestamp at last sync
+}
+
+const STORE_KEY_PREFIX = 'simkl-scrobble:lists:';
+
+// Don't ask Simkl for activities more often than this per user
+const ACTIVITY_CHECK_INTERVAL_SECONDS = 60;
+
+// Drop stored lists for users that stopped using the addon
+const STORE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const ACTIVITY_SECTIONS: Record<ListType, keyof SimklActivities> = {
+    movies: 'movies',
+    shows: 'tv_shows',
+    anime: 'anime',
+};
+
+function storeKey(userId: string): string {
+    return STORE_KEY_PREFIX + userId;
+}
+
+function itemSimklId(item: SimklListItem): number | undefined {
+    return (item.movie || item.show || item.anime)?.ids.simkl;
+}
+
+async function readList(userId: string, listType: ListType): Promise<StoredList | null> {
+    const raw = await redis.hget(storeKey(userId), listType);
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw) as StoredList;
+    } catch (error) {
+        console.error(`Failed to parse stored ${listType} list:`, error);
+        return null;
+    }
+}
+
+async function writeList(userId: string, listType: ListType, list: StoredList): Promise<void> {
+    await redis
+        .multi()
+        .hset(storeKey(userId), listType, JSON.stringify(list))
+        .expire(storeKey(userId), STORE_TTL_SECONDS)
+        .exec();
+}
+
+/**
+ * Get fresh activities, at most once per check interval per user and list.
+ * Returns null if the check was skipped or failed.
+ */
+async function checkActivities(userId: string, listType: ListType, accessToken: string): Promise<SimklActivities | null> {
+    const lockKey = `${storeKey(userId)}:checked:${listType}`;
+    const acquired = await redis.set(lockKey, '1', 'EX', ACTIVITY_CHECK_INTERVAL_SECONDS, 'NX');
+    if (!acquired) return null;
+
+    return getActivities(accessToken);
+}
+
+/**
+ * Bring the stored list of a media type up to date and return it.
+ */
+async function syncList(userId: string, listType: ListType, accessToken: string): Promise<SimklListItem[]> {
+    const stored = await readList(userId, listType);
+    const activities = await checkActivities(userId, listType, accessToken);
+
+    if (stored && !activities) {
+        // Checked recently (or Simkl is unreachable): serve what we have
+        return stored.items;
+    }
+
+    const section = activities?.[ACTIVITY_SECTIONS[listType]] as { all?: string; removed_from_list?: string } | undefined;
+    const activity = section?.all;
+    const removedAt = section?.removed_from_list;
+
+    if (stored && activity && stored.activity === activity) {
+        return stored.items;
+    }
+
+    // Removals don't show up in deltas, so a removal forces a full fetch.
+    // Deltas start from Simkl's own timestamp so clock skew can't skip changes.
+    const canDelta = stored && stored.activity && stored.removedAt === removedAt;
+
+    if (canDelta) {
+        const changed = await getAllItems(listType, accessToken, stored.activity);
+        if (changed) {
+            const byId = new Map<number, SimklListItem>();
+            for (const item of stored.items) byId.set(itemSimklId(item), item);
+            for (const item of changed) byId.set(itemSimklId(item), item);
+
+            const items = [...byId.values()];
+            await writeList(userId, listType, { items, activity, removedAt });
+            console.log(`Synced ${changed.length} changed ${listType} items from Simkl`);
+            return items;
+        }
+    } else {
+        const items = await getAllItems(listType, accessToken);
+        if (items) {
+            await writeList(userId, listType, { items, activity, removedAt });
+            console.log(`Fetched all ${items.length} ${listType} items from Simkl`);
+            return items;
+        }
+    }
+
+    // Fetch failed: fall back to the stale copy if there is one
+    return stored ? stored.items : [];
+}
+
+/**
+ * Get a user's list for a media type and status from the local store.
+ * Simkl is only hit when its activities show the list changed.
+ */
+export async function getStoredList(
+    userId: string,
+    listType: ListType,
+    status: ListStatus,
+    accessToken: string
+): Promise<SimklListItem[]> {
+    try {
+        const items = await syncList(userId, listType, accessToken);
+        return items.filter((item) => item.status === status);
+    } catch (error) {
+        console.error(`Failed to sync ${listType} list:`, error);
+        return [];
+    }
+}
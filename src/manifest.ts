@@ -1,28 +1,60 @@
 import { Manifest } from 'stremio-addon-sdk';
+import { catalogExtra } from './catalog';
 
 const manifest: Manifest = {
     id: 'com.example.simkl-scrobbler',
     version: '1.2.0',
     name: 'Simkl Scrobbler',
-    description: 'Scrobble to Simkl + view your Watching & Plan to Watch lists',
+    description: 'Scrobble to Simkl + view your Simkl and AniList lists',
 
-    resources: ['subtitles', 'catalog'],
+    resources: [
+        'subtitles',
+        'catalog',
+        // List actions (add to list, mark watched, ...) shown as stream entries
+        { name: 'stream', types: ['movie', 'series', 'anime'], idPrefixes: ['tt', 'kitsu:'] },
+        // Detail pages for catalog items that only have a Simkl ID
+        { name: 'meta', types: ['movie', 'series'], idPrefixes: ['simkl:'] },
+    ],
     types: ['movie', 'series', 'anime'],
     idPrefixes: ['tt', 'kitsu:'], // IMDb and Kitsu IDs
 
     catalogs: [
         // Movies
-        { type: 'movie', id: 'simkl-watching-movies', name: 'Simkl: Watching (Movies)' },
-        { type: 'movie', id: 'simkl-plantowatch-movies', name: 'Simkl: Plan to Watch (Movies)' },
+        { type: 'movie', id: 'simkl-watching-movies', name: 'Simkl: Watching (Movies)', extra: catalogExtra() },
+        { type: 'movie', id: 'simkl-plantowatch-movies', name: 'Simkl: Plan to Watch (Movies)', extra: catalogExtra() },
         // Shows
-        { type: 'series', id: 'simkl-watching-shows', name: 'Simkl: Watching (Shows)' },
-        { type: 'series', id: 'simkl-plantowatch-shows', name: 'Simkl: Plan to Watch (Shows)' },
+        { type: 'series', id: 'simkl-watching-shows', name: 'Simkl: Watching (Shows)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-plantowatch-shows', name: 'Simkl: Plan to Watch (Shows)', extra: catalogExtra() },
         // Anime (Simkl)
-        { type: 'series', id: 'simkl-watching-anime', name: 'Simkl: Watching (Anime)' },
-        { type: 'series', id: 'simkl-plantowatch-anime', name: 'Simkl: Plan to Watch (Anime)' },
+        { type: 'series', id: 'simkl-watching-anime', name: 'Simkl: Watching (Anime)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-plantowatch-anime', name: 'Simkl: Plan to Watch (Anime)', extra: catalogExtra() },
+        // Up Next (Simkl)
+        { type: 'series', id: 'simkl-upnext', name: 'Simkl: Up Next', extra: catalogExtra() },
+        // Calendar (Simkl)
+        { type: 'series', id: 'simkl-calendar', name: 'Simkl: Calendar', extra: [{ name: 'skip' }] },
+        // Search (Simkl)
+        { type: 'movie', id: 'simkl-search-movies', name: 'Simkl: Search', extra: [{ name: 'search', isRequired: true }] },
+        { type: 'series', id: 'simkl-search-shows', name: 'Simkl: Search', extra: [{ name: 'search', isRequired: true }] },
+        { type: 'series', id: 'simkl-search-anime', name: 'Simkl: Search (Anime)', extra: [{ name: 'search', isRequired: true }] },
+        // Optional status lists (Simkl)
+        { type: 'series', id: 'simkl-hold-shows', name: 'Simkl: On Hold (Shows)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-hold-anime', name: 'Simkl: On Hold (Anime)', extra: catalogExtra() },
+        { type: 'movie', id: 'simkl-completed-movies', name: 'Simkl: Completed (Movies)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-completed-shows', name: 'Simkl: Completed (Shows)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-completed-anime', name: 'Simkl: Completed (Anime)', extra: catalogExtra() },
+        { type: 'movie', id: 'simkl-dropped-movies', name: 'Simkl: Dropped (Movies)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-dropped-shows', name: 'Simkl: Dropped (Shows)', extra: catalogExtra() },
+        { type: 'series', id: 'simkl-dropped-anime', name: 'Simkl: Dropped (Anime)', extra: catalogExtra() },
         // Anime (AniList)
-        { type: 'anime', id: 'anilist-watching-anime', name: 'AniList: Watching' },
-        { type: 'anime', id: 'anilist-plan-anime', name: 'AniList: Plan to Watch' },
+        { type: 'anime', id: 'anilist-watching-anime', name: 'AniList: Watching', extra: catalogExtra() },
+        { type: 'anime', id: 'anilist-plan-anime', name: 'AniList: Plan to Watch', extra: catalogExtra() },
+        { type: 'anime', id: 'anilist-upnext-anime', name: 'AniList: Up Next', extra: catalogExtra() },
+        { type: 'anime', id: 'anilist-calendar-anime', name: 'AniList: Calendar', extra: [{ name: 'skip' }] },
+        { type: 'anime', id: 'anilist-search-anime', name: 'AniList: Search', extra: [{ name: 'search', isRequired: true }] },
+        { type: 'anime', id: 'anilist-paused-anime', name: 'AniList: Paused', extra: catalogExtra() },
+        { type: 'anime', id: 'anilist-completed-anime', name: 'AniList: Completed', extra: catalogExtra() },
+        { type: 'anime', id: 'anilist-dropped-anime', name: 'AniList: Dropped', extra: catalogExtra() },
+        { type: 'anime', id: 'anilist-repeating-anime', name: 'AniList: Rewatching', extra: catalogExtra() },
     ],
 
     behaviorHints: {
@@ -42,7 +74,61 @@ const manifest: Manifest = {
             title: 'Scrobble Threshold (0.1-1.0, default: 0.8)',
             default: '0.8',
         },
+        {
+            key: 'inactivity',
+            type: 'text',
+            title: 'Inactivity Timeout in minutes (0 = off)',
+            default: '0',
+        },
+        {
+            key: 'sort',
+            type: 'select',
+            title: 'Default Catalog Sort',
+            options: ['added', 'title', 'year', 'rating'],
+            default: 'added',
+        },
+        {
+            key: 'tolerance',
+            type: 'text',
+            title: 'Binge Tolerance in minutes (default: 3)',
+            default: '3',
+        },
     ],
 };
 
+// Longest custom catalog name we accept
+const MAX_CATALOG_NAME_LENGTH = 60;
+
+/**
+ * Build the manifest served to an installed addon: only the catalogs the user
+ * enabled, in their chosen order (unlisted ones keep the default order, after
+ * the listed ones) and with their custom names.
+ */
+export function buildUserManifest(
+    isEnabled: (catalogId: string) => boolean,
+    order: string[] = [],
+    names: Record<string, string> = {}
+): Manifest {
+    const position = (id: string): number => {
+        const index = order.indexOf(id);
+        return index === -1 ? order.length : index;
+    };
+
+    const catalogs = manifest.catalogs
+        .map((catalog: any, index: number) => ({ catalog, index }))
+        .filter(({ catalog }: any) => isEnabled(catalog.id))
+        .sort((a: any, b: any) => position(a.catalog.id) - position(b.catalog.id) || a.index - b.index)
+        .map(({ catalog }: any) => {
+            const custom = names?.[catalog.id];
+            const name = typeof custom === 'string' ? custom.trim() : '';
+            return name ? { ...catalog, name: name.slice(0, MAX_CATALOG_NAME_LENGTH) } : catalog;
+        });
+
+    // Installed with a config, so it no longer needs configuring first; keep
+    // "configurable" so Stremio's Configure button opens /{config}/configure
+    const { configurationRequired, ...behaviorHints } = manifest.behaviorHints;
+
+    return { ...manifest, catalogs, behaviorHints };
+}
+
 export default manifest;
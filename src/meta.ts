@@ -0,0 +1,103 @@
+import {
+    getMovieInfo,
+    getShowInfo,
+    getAnimeInfo,
+    getEpisodes,
+    pickStremioId,
+    SimklMediaDetails,
+    SimklEpisode,
+} from './simkl';
+
+const POSTER_URL = 'https://simkl.in/posters';
+const FANART_URL = 'https://simkl.in/fanart';
+const EPISODE_IMAGE_URL = 'https://simkl.in/episodes';
+
+/**
+ * Parse a "simkl:<id>" meta ID.
+ * Returns null if the ID is not a Simkl ID.
+ */
+export function parseSimklId(id: string): number | null {
+    const match = /^simkl:(\d+)$/.exec(id);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Build the video ID Stremio should request streams/subtitles with.
+ * Uses the same ID scheme other addons understand for the item.
+ */
+export function buildVideoId(baseId: string, season: number, episode: number): string {
+    if (baseId.startsWith('kitsu:')) {
+        return `${baseId}:${episode}`;
+    }
+    return `${baseId}:${season}:${episode}`;
+}
+
+function episodeToVideo(baseId: string, ep: SimklEpisode): any {
+    const isSpecial = ep.type === 'special';
+    const season = isSpecial ? 0 : (ep.season || 1);
+    return {
+        id: buildVideoId(baseId, season, ep.episode),
+        title: ep.title || `${isSpecial ? 'Special' : 'Episode'} ${ep.episode}`,
+        season,
+        episode: ep.episode,
+        released: ep.date ? new Date(ep.date).toISOString() : undefined,
+        thumbnail: ep.img ? `${EPISODE_IMAGE_URL}/${ep.img}_w.webp` : undefined,
+        available: ep.aired,
+    };
+}
+
+function detailsToMeta(id: string, type: string, info: SimklMediaDetails, runtime?: number): any {
+    const date = info.released || info.first_aired;
+    const rating = info.ratings?.imdb?.rating || info.ratings?.simkl?.rating;
+
+    return {
+        id,
+        type,
+        name: info.title,
+        poster: info.poster ? `${POSTER_URL}/${info.poster}_m.webp` : undefined,
+        background: info.fanart ? `${FANART_URL}/${info.fanart}_medium.webp` : undefined,
+        description: info.overview,
+        genres: info.genres,
+        releaseInfo: info.year ? String(info.year) : undefined,
+        released: date ? new Date(date).toISOString() : undefined,
+        runtime: runtime ? `${runtime} min` : undefined,
+        imdbRating: rating ? rating.toFixed(1) : undefined,
+        director: info.director ? [info.director] : undefined,
+        country: info.country,
+    };
+}
+
+/**
+ * Build a full Stremio meta object for a simkl: ID.
+ * Series are looked up as TV shows first, then as anime.
+ * Returns null if Simkl doesn't know the item.
+ */
+export async function getSimklMeta(type: string, id: string, accessToken: string): Promise<any | null> {
+    const simklId = parseSimklId(id);
+    if (simklId === null) return null;
+
+    if (type === 'movie') {
+        const movie = await getMovieInfo(simklId, accessToken);
+        return movie ? detailsToMeta(id, type, movie, movie.runtime) : null;
+    }
+
+    let info: SimklMediaDetails & { runtime?: number } | null = await getShowInfo(simklId, accessToken);
+    let isAnime = false;
+
+    if (!info) {
+        info = await getAnimeInfo(simklId, accessToken);
+        isAnime = true;
+    }
+
+    if (!info) return null;
+
+    const episodes = await getEpisodes(simklId, isAnime ? 'anime' : 'tv', accessToken);
+
+    // Point videos at an ID other addons can serve streams for, if the item has one
+    const videoBaseId = pickStremioId({ ...info.ids, simkl: simklId }, isAnime);
+
+    return {
+        ...detailsToMeta(id, type, info, info.runtime),
+        videos: episodes.map((ep) => episodeToVideo(videoBaseId, ep)),
+    };
+}
@@ -0,0 +1,118 @@
+import { randomBytes } from 'crypto';
+import redis from './redis';
+import { sign, verifySignature } from './crypto';
+
+/**
+ * Signed, single-use OAuth state. The payload stays in Redis under a random
+ * nonce; the state sent through the provider is "<nonce>.<expiry>.<signature>"
+ * and is rejected if tampered with, expired or already used. The nonce is also
+ * set as a cookie, so the callback only accepts the browser that started the flow.
+ */
+
+export type OAuthProvider = 'simkl' | 'anilist';
+
+const STATE_KEY_PREFIX = 'simkl-scrobble:oauth-state:';
+
+// Time allowed to finish signing in with the provider
+const STATE_TTL_SECONDS = 15 * 60;
+
+function stateKey(nonce: string): string {
+    return STATE_KEY_PREFIX + nonce;
+}
+
+function cookieName(provider: OAuthProvider): string {
+    return `oauth_state_${provider}`;
+}
+
+/**
+ * Tie a state to this browser with a short-lived HttpOnly cookie holding its nonce.
+ * SameSite=Lax still sends it on the provider's top-level redirect back.
+ */
+export function setStateCookie(
+    res: { cookie(name: string, value: string, options: Record<string, any>): void },
+    provider: OAuthProvider,
+    state: string
+): void {
+    res.cookie(cookieName(provider), state.split('.')[0], {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: (process.env.BASE_URL || '').startsWith('https:'),
+        maxAge: STATE_TTL_SECONDS * 1000,
+        path: '/',
+    });
+}
+
+/**
+ * Remove the state cookie once the callback has used it.
+ */
+export function clearStateCookie(res: { clearCookie(name: string, options: Record<string, any>): void }, provider: OAuthProvider): void {
+    res.clearCookie(cookieName(provider), { path: '/' });
+}
+
+/**
+ * Read the nonce cookie set by setStateCookie from a Cookie header.
+ */
+export function getStateCookie(cookieHeader: string | undefined, provider: OAuthProvider): string | undefined {
+    const prefix = `${cookieName(provider)}=`;
+    const cookie = (cookieHeader || '').split(';').map((part) => part.trim()).find((part) => part.startsWith(prefix));
+    // Nonces are base64url, so they need no decoding
+    return cookie?.slice(prefix.length);
+}
+
+/**
+ * Create the state for an authorization request, holding the payload until the callback.
+ */
+export async function createOAuthState(provider: OAuthProvider, payload: Record<string, any>): Promise<string> {
+    const nonce = randomBytes(16).toString('base64url');
+    const expiresAt = Date.now() + STATE_TTL_SECONDS * 1000;
+
+    await redis.set(stateKey(nonce), JSON.stringify({ provider, payload }), 'EX', STATE_TTL_SECONDS);
+
+    return `${nonce}.${expiresAt}.${sign(`${provider}.${nonce}.${expiresAt}`)}`;
+}
+
+/**
+ * Verify and use up the state returned to a callback. browserNonce is the
+ * value of the state cookie sent with the callback request.
+ * Returns the payload, or null if the state is invalid, expired, replayed,
+ * for another provider or from a different browser.
+ */
+export async function consumeOAuthState(
+    provider: OAuthProvider,
+    state: string | undefined,
+    browserNonce: string | undefined
+): Promise<Record<string, any> | null> {
+    const [nonce, expiry, signature] = (state || '').split('.');
+    if (!nonce || !expiry || !signature) return null;
+
+    if (!verifySignature(`${provider}.${nonce}.${expiry}`, signature)) {
+        console.warn(`Rejected ${provider} OAuth state with a bad signature`);
+        return null;
+    }
+
+    if (Date.now() > parseInt(expiry, 10)) {
+        console.warn(`Rejected expired ${provider} OAuth state`);
+        return null;
+    }
+
+    // Stops a started flow from being handed to someone else to finish
+    if (nonce !== browserNonce) {
+        console.warn(`Rejected ${provider} OAuth state from a different browser`);
+        return null;
+    }
+
+    // Single use: whoever deletes the nonce first wins
+    const raw = await redis.getdel(stateKey(nonce));
+    if (!raw) {
+        console.warn(`Rejected unknown or replayed ${provider} OAuth state`);
+        return null;
+    }
+
+    try {
+        const stored = JSON.parse(raw);
+        return stored.provider === provider ? stored.payload : null;
+    } catch (error) {
+        console.error('Corrupt OAuth state:', error);
+        return null;
+    }
+}
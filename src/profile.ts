@@ -0,0 +1,194 @@
+import { randomBytes } from 'crypto';
+import redis from './redis';
+import { encrypt, decrypt, isEncrypted, needsReencryption, reencrypt } from './crypto';
+
+/**
+ * Server-side user profiles. The install URL only carries a random profile ID;
+ * the settings and (encrypted) tokens live in Redis under that ID, so settings
+ * can change without reinstalling the addon.
+ */
+
+export interface UserConfig {
+    token?: string;           // Simkl token
+    anilistToken?: string;    // AniList token
+    threshold?: string;
+    inactivity?: string;      // Minutes without activity before playback counts as abandoned ('0' = off)
+    tolerance?: string;       // Minutes short of the threshold that still count when the next item starts
+    sort?: string;            // Default catalog sort: 'added', 'title', 'year' or 'rating'
+    movies?: string;  // '1' or '0'
+    shows?: string;   // '1' or '0'
+    anime?: string;   // '1' or '0'
+    actions?: string; // '1' or '0': list actions on the stream list
+    catalogOrder?: string;                  // Comma-separated catalog IDs, first row first
+    catalogNames?: Record<string, string>;  // Catalog ID -> custom row name
+    profileId?: string;       // Set when loaded from a server-side profile, never stored
+    anilistEnabled?: string;  // '1' or '0'
+    catWatchingMovies?: string;
+    catWatchingShows?: string;
+    catWatchingAnime?: string;
+    catPlanMovies?: string;
+    catPlanShows?: string;
+    catPlanAnime?: string;
+    catUpNext?: string;
+    catCalendar?: string;
+    catSearch?: string;
+    // Optional catalogs (off unless '1')
+    catHoldShows?: string;
+    catHoldAnime?: string;
+    catCompletedMovies?: string;
+    catCompletedShows?: string;
+    catCompletedAnime?: string;
+    catDroppedMovies?: string;
+    catDroppedShows?: string;
+    catDroppedAnime?: string;
+    // AniList catalogs
+    aniCatWatchingAnime?: string;
+    aniCatPlanAnime?: string;
+    aniCatUpNext?: string;
+    aniCatCalendar?: string;
+    aniCatSearch?: string;
+    aniCatPausedAnime?: string;
+    aniCatCompletedAnime?: string;
+    aniCatDroppedAnime?: string;
+    aniCatRepeatingAnime?: string;
+}
+
+const PROFILE_KEY_PREFIX = 'simkl-scrobble:profile:';
+
+// 16 random bytes, base64url encoded
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+function profileKey(profileId: string): string {
+    return PROFILE_KEY_PREFIX + profileId;
+}
+
+/**
+ * Check whether an install URL segment is a profile ID (rather than legacy inline JSON config).
+ */
+export function isProfileId(value: string): boolean {
+    return PROFILE_ID_PATTERN.test(value);
+}
+
+/**
+ * Store a new profile and return its ID.
+ */
+export async function createProfile(config: UserConfig): Promise<string> {
+    const profileId = randomBytes(16).toString('base64url');
+    await saveProfile(profileId, config);
+    return profileId;
+}
+
+/**
+ * Replace the settings stored for a profile.
+ */
+export async function saveProfile(profileId: string, config: UserConfig): Promise<void> {
+    const { profileId: _, ...stored } = config;
+    await redis.set(profileKey(profileId), JSON.stringify(stored));
+}
+
+/**
+ * Decrypt the stored AniList token. Tokens saved before it was encrypted are plain base64.
+ */
+export function decryptAniListToken(value: string): string {
+    return isEncrypted(value) ? decrypt(value) : Buffer.from(value, 'base64').toString();
+}
+
+/**
+ * Re-encrypt the config's tokens under the newest encryption key, encrypting
+ * base64 AniList tokens on the way. Returns null if nothing needed changing
+ * (or the tokens can't be decrypted).
+ */
+export function reencryptTokens(config: UserConfig): UserConfig | null {
+    const rotateToken = !!config.token && needsReencryption(config.token);
+    const rotateAniList = !!config.anilistToken && needsReencryption(config.anilistToken);
+    if (!rotateToken && !rotateAniList) return null;
+
+    try {
+        return {
+            ...config,
+            ...(rotateToken && { token: reencrypt(config.token) }),
+            ...(rotateAniList && { anilistToken: encrypt(decryptAniListToken(config.anilistToken)) }),
+        };
+    } catch (error) {
+        console.error('Failed to re-encrypt tokens:', error);
+        return null;
+    }
+}
+
+async function readProfile(profileId: string): Promise<UserConfig | null> {
+    const raw = await redis.get(profileKey(profileId));
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        console.error(`Corrupt profile ${profileId}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Load a profile, or null if it doesn't exist.
+ * Tokens under an older encryption key are re-encrypted on the way.
+ */
+export async function getProfile(profileId: string): Promise<UserConfig | null> {
+    if (!isProfileId(profileId)) return null;
+
+    let config = await readProfile(profileId);
+    if (!config) return null;
+
+    const rotated = reencryptTokens(config);
+    if (rotated) {
+        await saveProfile(profileId, rotated);
+        config = rotated;
+    }
+
+    return { ...config, profileId };
+}
+
+/**
+ * Re-encrypt the tokens of every stored profile under the newest key.
+ * Returns the number of profiles updated.
+ */
+export async function reencryptAllProfiles(): Promise<number> {
+    let updated = 0;
+    let cursor = '0';
+
+    do {
+        const [next, keys] = await redis.scan(cursor, 'MATCH', `${PROFILE_KEY_PREFIX}*`, 'COUNT', 100);
+        cursor = next;
+
+        for (const key of keys) {
+            const profileId = key.slice(PROFILE_KEY_PREFIX.length);
+            const config = await readProfile(profileId);
+            const rotated = config && reencryptTokens(config);
+            if (rotated) {
+                await saveProfile(profileId, rotated);
+                updated++;
+            }
+        }
+    } while (cursor !== '0');
+
+    return updated;
+}
+
+/**
+ * Resolve the config segment of an addon URL: a profile ID, or the inline
+ * JSON config of installs made before profiles existed.
+ * Only getProfile sets profileId; an inline config can't claim one.
+ */
+export async function resolveUserConfig(segment: string): Promise<UserConfig | null> {
+    if (isProfileId(segment)) {
+        return getProfile(segment);
+    }
+
+    try {
+        const config = JSON.parse(segment);
+        if (!config || typeof config !== 'object') return null;
+
+        const { profileId: _, ...inline } = config;
+        return inline;
+    } catch (e) {
+        return null;
+    }
+}
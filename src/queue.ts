@@ -1,28 +1,56 @@
 import { Queue, Worker, Job } from 'bullmq';
 import { scrobbleMovie, scrobbleEpisode, scrobbleAnime } from './simkl';
-import { updateAnimeProgress, searchAnimeByMalId } from './anilist';
+import { updateAnimeProgress, resolveAniListId } from './anilist';
+import { decrypt } from './crypto';
+import { getProfile, isProfileId, decryptAniListToken, UserConfig } from './profile';
+import redis, { redisConfig, closeRedis } from './redis';
+import {
+    stopPlaybackSession,
+    abandonPlaybackSession,
+    getPlaybackSession,
+    isAbandoned,
+    isSameTarget,
+    PlaybackSession,
+} from './session';
 
 export interface ScrobbleJobData {
-    userId: string;           // Encrypted token used as user identifier
+    userId: string;           // Profile ID (or encrypted token, for inline-config installs)
     type: 'movie' | 'episode' | 'anime';
     simklId: number;
     season?: number;
     episode?: number;
-    token: string;            // Decrypted Simkl access token
-    anilistToken?: string;    // AniList access token (if connected)
+    // Tokens are looked up when the job runs (profile installs) or carried
+    // encrypted (installs without a profile); never stored decrypted
+    token?: string;           // Encrypted Simkl token, only without a profile
+    anilistToken?: string;    // Encrypted AniList token, only without a profile
     anilistId?: number;       // AniList media ID (if known)
     malId?: number;           // MyAnimeList ID (for AniList lookup)
+    anilistProgress?: number; // Per-entry episode number for AniList (defaults to episode)
     title?: string;           // For logging
+    runtime?: number;         // Runtime in minutes (for live scrobble progress)
+    startedAt?: number;       // Epoch ms when playback started
+    inactivityMs?: number;    // Idle time after which playback counts as abandoned (0 = off)
+    toleranceMs?: number;     // How far short of the threshold a replaced job may still be credited
 }
 
 const QUEUE_NAME = 'simkl-scrobble';
 
-// Redis connection config for BullMQ (uses internal ioredis)
-const redisConfig = {
-    host: process.env.REDIS_HOST || 'localhost',
-    port: parseInt(process.env.REDIS_PORT || '6379'),
-    maxRetriesPerRequest: null,
-};
+// Redis key prefix for the user -> pending job index
+const PENDING_KEY_PREFIX = `${QUEUE_NAME}:pending:`;
+
+// Keep the pending index around a bit longer than the job delay itself
+const PENDING_KEY_GRACE_MS = 60 * 60 * 1000;
+
+// Jobs queued by older versions carry the decrypted Simkl token (hex)
+const PLAINTEXT_TOKEN_PATTERN = /^[0-9a-f]+$/i;
+
+// Delete the pending index entry only if it still points at the given job
+const RELEASE_PENDING_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
 
 // Scrobble queue
 const scrobbleQueue = new Queue(QUEUE_NAME, {
@@ -33,21 +61,79 @@ const scrobbleQueue = new Queue(QUEUE_NAME, {
     },
 });
 
-// Track pending jobs by user ID for cancellation
-const userJobIds = new Map<string, string>();
+function pendingKey(userId: string): string {
+    return PENDING_KEY_PREFIX + userId;
+}
+
+/**
+ * Remove a job if it has not started yet.
+ * Returns true if the job was removed.
+ */
+async function removeIfPending(jobId: string): Promise<boolean> {
+    const job = await scrobbleQueue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    if (state !== 'delayed' && state !== 'waiting') return false;
+
+    await job.remove();
+    console.log(`Cancelled pending scrobble job: ${jobId}`);
+    return true;
+}
+
+/**
+ * Settle a job that is being replaced by a new playback.
+ * If it was due within its tolerance (e.g. the user skipped the credits and
+ * autoplay moved on to another item), run it now instead of dropping it.
+ */
+async function settleReplacedJob(jobId: string, next: ScrobbleJobData): Promise<void> {
+    const job = await scrobbleQueue.getJob(jobId);
+    if (!job) return;
+
+    const { type, simklId, season, episode } = job.data;
+    const sameItem = isSameTarget({ type, simklId, season, episode }, next);
+
+    if (sameItem) {
+        await removeIfPending(jobId);
+        return;
+    }
+
+    // Already due (e.g. the worker was busy or restarting): let it run
+    const state = await job.getState();
+    if (state === 'waiting') {
+        console.log(`Keeping due scrobble for "${job.data.title}" (job: ${jobId})`);
+        return;
+    }
+    if (state !== 'delayed') return;
+
+    const remainingMs = job.timestamp + job.delay - Date.now();
+    if (remainingMs <= (job.data.toleranceMs || 0)) {
+        await job.promote();
+        console.log(`Crediting "${job.data.title}" early, it was due in ${Math.round(remainingMs / 1000)}s (job: ${jobId})`);
+        return;
+    }
+
+    await removeIfPending(jobId);
+}
+
+/**
+ * Drop the user's pending index entry if it still belongs to this job.
+ */
+async function releasePendingScrobble(userId: string, jobId: string): Promise<void> {
+    await redis.eval(RELEASE_PENDING_SCRIPT, 1, pendingKey(userId), jobId);
+}
 
 /**
  * Schedule a scrobble job to run after a delay.
- * If a job already exists for this user, it will be cancelled first.
+ * If a job already exists for this user, it will be cancelled, or run
+ * immediately if it was already within its tolerance of being due.
+ * The user -> job index lives in Redis so this works across restarts and replicas.
  */
 export async function scheduleScrobble(
     userId: string,
     jobData: ScrobbleJobData,
     delayMs: number
 ): Promise<void> {
-    // Cancel any existing pending job for this user
-    await cancelPendingScrobble(userId);
-
     // Create unique job ID
     const jobId = `scrobble-${userId}-${Date.now()}`;
 
@@ -57,36 +143,132 @@ export async function scheduleScrobble(
         jobId,
     });
 
-    // Track the job ID for this user
-    userJobIds.set(userId, jobId);
+    // Atomically point the user at the new job and get the one it replaces
+    const previousJobId = await redis.set(
+        pendingKey(userId),
+        jobId,
+        'PX',
+        delayMs + PENDING_KEY_GRACE_MS,
+        'GET'
+    );
+
+    if (previousJobId && previousJobId !== jobId) {
+        await settleReplacedJob(previousJobId, jobData);
+    }
 
     console.log(`Scheduled scrobble for "${jobData.title}" in ${Math.round(delayMs / 60000)} minutes (job: ${jobId})`);
 }
 
+/**
+ * Check whether the user has a scrobble waiting to run.
+ */
+export async function hasPendingScrobble(userId: string): Promise<boolean> {
+    return (await redis.exists(pendingKey(userId))) === 1;
+}
+
 /**
  * Cancel any pending scrobble job for a user.
  * Returns true if a job was cancelled, false otherwise.
  */
 export async function cancelPendingScrobble(userId: string): Promise<boolean> {
-    const existingJobId = userJobIds.get(userId);
+    const existingJobId = await redis.getdel(pendingKey(userId));
 
-    if (existingJobId) {
-        const job = await scrobbleQueue.getJob(existingJobId);
+    if (!existingJobId) {
+        return false;
+    }
 
-        if (job) {
-            const state = await job.getState();
+    return removeIfPending(existingJobId);
+}
 
-            if (state === 'delayed' || state === 'waiting') {
-                await job.remove();
-                console.log(`Cancelled pending scrobble job: ${existingJobId}`);
-                userJobIds.delete(userId);
-                return true;
-            }
+interface JobCredentials {
+    token: string;            // Decrypted Simkl access token
+    anilistToken?: string;    // Decrypted AniList access token (if connected and enabled)
+}
+
+/**
+ * Resolve the user's current tokens when the job runs, so a job picks up
+ * tokens refreshed after it was scheduled.
+ * Returns null if the profile is gone or the Simkl token can't be decrypted.
+ */
+async function resolveCredentials(data: ScrobbleJobData): Promise<JobCredentials | null> {
+    const source: UserConfig | null = isProfileId(data.userId)
+        ? await getProfile(data.userId)
+        : { token: data.token, anilistToken: data.anilistToken };
+    if (!source?.token) return null;
+
+    let token: string;
+    try {
+        token = decrypt(source.token);
+    } catch (error) {
+        if (!isProfileId(data.userId) && PLAINTEXT_TOKEN_PATTERN.test(source.token)) {
+            console.warn('Using the plaintext token of a job queued by an older version');
+            token = source.token;
+        } else {
+            console.error('Failed to decrypt Simkl token:', error);
+            return null;
+        }
+    }
+
+    let anilistToken: string | undefined;
+    if (source.anilistToken && source.anilistEnabled !== '0') {
+        try {
+            anilistToken = decryptAniListToken(source.anilistToken);
+        } catch (error) {
+            // Don't fail (and retry) a job whose Simkl scrobble can still go through
+            console.error('Failed to decrypt AniList token:', error);
+        }
+    }
+
+    return { token, anilistToken };
+}
+
+/**
+ * Check the user's playback session for abandonment before scrobbling.
+ * Abandoned sessions are paused on Simkl and dropped.
+ */
+async function checkAbandoned(job: Job<ScrobbleJobData>, token: string): Promise<boolean> {
+    const { userId, type, simklId, season, episode, inactivityMs } = job.data;
+    if (!inactivityMs) return false;
+
+    const session = await getPlaybackSession(userId);
+    if (!session || !isSameTarget(session.target, { type, simklId, season, episode })) {
+        return false;
+    }
+
+    if (!isAbandoned(session, inactivityMs)) return false;
+
+    await abandonPlaybackSession(userId, session, token);
+    return true;
+}
+
+/**
+ * Scrobble to Simkl, preferring the live scrobble stop event.
+ * Falls back to a history write if the live endpoint fails or only records a pause.
+ */
+async function scrobbleToSimkl(job: Job<ScrobbleJobData>, token: string): Promise<boolean> {
+    const { userId, type, simklId, season, episode, title, runtime, startedAt } = job.data;
+
+    if (runtime && startedAt) {
+        const session: PlaybackSession = {
+            target: { type, simklId, season, episode },
+            title,
+            runtime,
+            startedAt,
+        };
+
+        if (await stopPlaybackSession(userId, session, token)) {
+            return true;
         }
+
+        console.warn(`Live scrobble did not mark "${title || simklId}" as watched, falling back to history`);
     }
 
-    userJobIds.delete(userId);
-    return false;
+    if (type === 'movie') {
+        return scrobbleMovie(simklId, token);
+    } else if (type === 'episode') {
+        return scrobbleEpisode(simklId, season, episode, token);
+    }
+    return scrobbleAnime(simklId, episode, token, season);
 }
 
 /**
@@ -94,41 +276,42 @@ export async function cancelPendingScrobble(userId: string): Promise<boolean> {
  * Scrobbles to both Simkl and AniList (if enabled).
  */
 async function processScrobbleJob(job: Job<ScrobbleJobData>): Promise<void> {
-    const { type, simklId, season, episode, token, anilistToken, anilistId, malId, title } = job.data;
+    const { type, simklId, season, episode, anilistId, malId, anilistProgress, title } = job.data;
 
     console.log(`Processing scrobble job for "${title || simklId}"...`);
 
+    const credentials = await resolveCredentials(job.data);
+    if (!credentials) {
+        console.warn(`No usable Simkl token for "${title || simklId}", dropping scrobble`);
+        return;
+    }
+    const { token, anilistToken } = credentials;
+
+    if (await checkAbandoned(job, token)) {
+        console.log(`No activity for "${title || simklId}" within the inactivity window, treating as abandoned`);
+        return;
+    }
+
     let simklSuccess: boolean = false;
     let anilistSuccess: boolean = true; // Default to true if not using AniList
 
     // Scrobble to Simkl
     if (type === 'movie') {
-        simklSuccess = await scrobbleMovie(simklId, token);
+        simklSuccess = await scrobbleToSimkl(job, token);
     } else if (type === 'episode' && season !== undefined && episode !== undefined) {
-        simklSuccess = await scrobbleEpisode(simklId, season, episode, token);
+        simklSuccess = await scrobbleToSimkl(job, token);
     } else if (type === 'anime' && episode !== undefined) {
-        simklSuccess = await scrobbleAnime(simklId, episode, token);
+        simklSuccess = await scrobbleToSimkl(job, token);
 
         // Also scrobble to AniList if token is provided
         if (anilistToken) {
             console.log('Also scrobbling to AniList...');
 
-            // Decode base64 token
-            const decodedAnilistToken = Buffer.from(anilistToken, 'base64').toString();
-
-            let actualAnilistId = anilistId;
-
             // If we don't have AniList ID but have MAL ID, look it up
-            if (!actualAnilistId && malId) {
-                const result = await searchAnimeByMalId(malId, decodedAnilistToken);
-                if (result) {
-                    actualAnilistId = result.anilistId;
-                    console.log(`Found AniList ID ${actualAnilistId} for MAL ID ${malId}`);
-                }
-            }
+            const actualAnilistId = await resolveAniListId(anilistId, malId, anilistToken);
 
             if (actualAnilistId) {
-                anilistSuccess = await updateAnimeProgress(actualAnilistId, episode, decodedAnilistToken);
+                anilistSuccess = await updateAnimeProgress(actualAnilistId, anilistProgress ?? episode, anilistToken);
             } else {
                 console.warn('Could not find AniList ID for anime, skipping AniList scrobble');
                 anilistSuccess = true; // Don't fail the job
@@ -173,14 +356,18 @@ export function initScrobbleWorker(): void {
     worker.on('completed', (job) => {
         console.log(`Scrobble job completed: ${job.id}`);
         if (job.data.userId) {
-            userJobIds.delete(job.data.userId);
+            releasePendingScrobble(job.data.userId, job.id).catch((err) => {
+                console.error('Failed to release pending scrobble:', err.message);
+            });
         }
     });
 
     worker.on('failed', (job, err) => {
         console.error(`Scrobble job failed: ${job?.id}`, err.message);
         if (job?.data.userId) {
-            userJobIds.delete(job.data.userId);
+            releasePendingScrobble(job.data.userId, job.id).catch((err) => {
+                console.error('Failed to release pending scrobble:', err.message);
+            });
         }
     });
 
@@ -196,5 +383,6 @@ export async function shutdownQueue(): Promise<void> {
         worker = null;
     }
     await scrobbleQueue.close();
+    await closeRedis();
     console.log('Queue shutdown complete');
 }
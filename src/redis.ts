@@ -0,0 +1,24 @@
+import Redis from 'ioredis';
+
+// Redis connection config shared by BullMQ and our own keys
+export const redisConfig = {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379'),
+    maxRetriesPerRequest: null,
+};
+
+// Shared client for addon state stored next to the BullMQ queue
+const redis = new Redis(redisConfig);
+
+redis.on('error', (err) => {
+    console.error('Redis connection error:', err.message);
+});
+
+/**
+ * Close the shared Redis client.
+ */
+export async function closeRedis(): Promise<void> {
+    await redis.quit();
+}
+
+export default redis;
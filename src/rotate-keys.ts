@@ -0,0 +1,20 @@
+import 'dotenv/config';
+import { reencryptAllProfiles } from './profile';
+import { closeRedis } from './redis';
+
+/**
+ * Re-encrypt every stored profile's tokens under the newest key in ENCRYPTION_KEYS.
+ * Run after adding a key; once it finishes, older keys only matter for
+ * installs that still carry their config inline in the URL.
+ */
+async function main(): Promise<void> {
+    const updated = await reencryptAllProfiles();
+    console.log(`Re-encrypted tokens of ${updated} profile(s)`);
+}
+
+main()
+    .catch((error) => {
+        console.error('Key rotation failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => closeRedis());
@@ -0,0 +1,68 @@
+import { searchByText, pickStremioId, SimklSearchResult } from './simkl';
+import { searchAniListMedia, anilistMediaToStremioId } from './anilist';
+import { CatalogItem } from './catalog';
+
+/**
+ * Search catalogs: title search on Simkl and AniList, for discovering titles
+ * that aren't on the user's lists yet. Results keep the services' relevance order.
+ */
+
+// Search catalog ID -> Simkl search type
+export const SIMKL_SEARCH_KINDS: Record<string, 'movie' | 'tv' | 'anime'> = {
+    'simkl-search-movies': 'movie',
+    'simkl-search-shows': 'tv',
+    'simkl-search-anime': 'anime',
+};
+
+function simklResultToMeta(result: SimklSearchResult, kind: 'movie' | 'tv' | 'anime'): CatalogItem['meta'] {
+    const { simkl_id, ...ids } = result.ids;
+    const isMovie = kind === 'movie' || result.anime_type === 'movie';
+
+    return {
+        id: pickStremioId({ ...ids, simkl: simkl_id }, kind === 'anime'),
+        type: isMovie ? 'movie' : 'series',
+        name: result.title,
+        poster: result.poster ? `https://simkl.in/posters/${result.poster}_m.webp` : undefined,
+        releaseInfo: result.year ? String(result.year) : undefined,
+    };
+}
+
+/**
+ * Search Simkl for movies, shows or anime.
+ */
+export async function searchSimkl(kind: 'movie' | 'tv' | 'anime', query: string): Promise<CatalogItem['meta'][]> {
+    const results = await searchByText(kind, query);
+    return results
+        .filter((result) => result.ids?.simkl_id)
+        .map((result) => simklResultToMeta(result, kind));
+}
+
+/**
+ * Search AniList for anime, dropping titles we can't map to a Stremio ID.
+ */
+export async function searchAniList(query: string, accessToken?: string): Promise<CatalogItem['meta'][]> {
+    let media: any[];
+    try {
+        media = await searchAniListMedia(query, accessToken);
+    } catch (error) {
+        console.error('AniList search failed:', error);
+        return [];
+    }
+
+    return media
+        .map((item): CatalogItem['meta'] | null => {
+            const stremio = anilistMediaToStremioId(item);
+            if (!stremio) return null;
+
+            return {
+                id: stremio.id,
+                type: stremio.type,
+                name: item.title.english || item.title.romaji,
+                poster: item.coverImage?.large,
+                description: item.description,
+                genres: item.genres,
+                releaseInfo: item.seasonYear ? String(item.seasonYear) : undefined,
+            };
+        })
+        .filter(Boolean);
+}
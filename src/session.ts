@@ -0,0 +1,174 @@
+import redis from './redis';
+import { sendScrobble, ScrobbleTarget } from './simkl';
+
+export interface PlaybackSession {
+    target: ScrobbleTarget;
+    title?: string;           // For logging
+    runtime: number;          // Runtime in minutes
+    startedAt: number;        // Epoch ms of the first playback signal
+    lastSeenAt?: number;      // Epoch ms of the latest subtitles/stream request for this item
+    stremioId?: string;       // Stremio video ID, so stream requests can be matched as heartbeats
+}
+
+const SESSION_KEY_PREFIX = 'simkl-scrobble:session:';
+
+// Sessions outlive the item runtime by this much before Redis drops them
+const SESSION_GRACE_MS = 60 * 60 * 1000;
+
+function sessionKey(userId: string): string {
+    return SESSION_KEY_PREFIX + userId;
+}
+
+export function isSameTarget(a: ScrobbleTarget, b: ScrobbleTarget): boolean {
+    return a.type === b.type
+        && a.simklId === b.simklId
+        && a.season === b.season
+        && a.episode === b.episode;
+}
+
+/**
+ * Estimate playback progress (0-100) from the time elapsed since the session started.
+ */
+export function estimateProgress(session: PlaybackSession, now: number = Date.now()): number {
+    const runtimeMs = session.runtime * 60 * 1000;
+    if (runtimeMs <= 0) return 0;
+    return Math.min(100, ((now - session.startedAt) / runtimeMs) * 100);
+}
+
+/**
+ * Get the user's current playback session, if any.
+ */
+export async function getPlaybackSession(userId: string): Promise<PlaybackSession | null> {
+    const raw = await redis.get(sessionKey(userId));
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw) as PlaybackSession;
+    } catch (error) {
+        console.error('Failed to parse playback session:', error);
+        return null;
+    }
+}
+
+async function savePlaybackSession(userId: string, session: PlaybackSession): Promise<void> {
+    await redis.set(
+        sessionKey(userId),
+        JSON.stringify(session),
+        'PX',
+        session.runtime * 60 * 1000 + SESSION_GRACE_MS
+    );
+}
+
+/**
+ * Check whether a session has gone quiet for longer than the inactivity window.
+ * Stremio sends nothing during uninterrupted playback, so a window shorter than
+ * the scrobble delay also drops viewings without a seek or track change.
+ * An inactivity window of 0 disables abandonment detection.
+ */
+export function isAbandoned(session: PlaybackSession, inactivityMs: number, now: number = Date.now()): boolean {
+    if (inactivityMs <= 0) return false;
+    return now - (session.lastSeenAt || session.startedAt) > inactivityMs;
+}
+
+/**
+ * Record a heartbeat for the user's session if it is playing this Stremio video.
+ * Returns true if a session was updated.
+ */
+export async function touchPlaybackSession(userId: string, stremioId: string, now: number = Date.now()): Promise<boolean> {
+    const session = await getPlaybackSession(userId);
+    if (!session || session.stremioId !== stremioId) return false;
+
+    await savePlaybackSession(userId, { ...session, lastSeenAt: now });
+    return true;
+}
+
+/**
+ * Start a playback session and tell Simkl the user is now watching it.
+ * A previous session for a different item is paused at its estimated progress.
+ * Repeated requests for the same item count as heartbeats and keep the
+ * original start time, since the quiet time before them may have been spent
+ * watching. After a gap longer than the inactivity window, Simkl is told the
+ * playback started again.
+ */
+export async function startPlaybackSession(
+    userId: string,
+    session: PlaybackSession,
+    accessToken: string,
+    inactivityMs: number = 0
+): Promise<PlaybackSession> {
+    const now = session.startedAt;
+    const previous = await getPlaybackSession(userId);
+
+    if (previous && isSameTarget(previous.target, session.target)) {
+        const lastSeenAt = previous.lastSeenAt || previous.startedAt;
+        const resumed = isAbandoned(previous, inactivityMs, now);
+
+        const heartbeat: PlaybackSession = {
+            ...previous,
+            stremioId: session.stremioId || previous.stremioId,
+            lastSeenAt: now,
+        };
+        await savePlaybackSession(userId, heartbeat);
+
+        if (resumed) {
+            console.log(`Resumed "${session.title}" after ${Math.round((now - lastSeenAt) / 60000)}m of inactivity`);
+            await sendScrobble('start', heartbeat.target, estimateProgress(heartbeat, now), accessToken)
+                .catch((error) => console.error('Failed to send scrobble start:', error));
+        }
+
+        return heartbeat;
+    }
+
+    if (previous) {
+        await sendScrobble('pause', previous.target, estimateProgress(previous, now), accessToken)
+            .catch((error) => console.error('Failed to pause previous session:', error));
+    }
+
+    const started: PlaybackSession = { ...session, lastSeenAt: now };
+    await savePlaybackSession(userId, started);
+
+    await sendScrobble('start', started.target, 0, accessToken)
+        .catch((error) => console.error('Failed to send scrobble start:', error));
+
+    return started;
+}
+
+/**
+ * Abandon the user's playback session: pause it on Simkl at its estimated
+ * progress and forget it, so nothing gets scrobbled.
+ */
+export async function abandonPlaybackSession(
+    userId: string,
+    session: PlaybackSession,
+    accessToken: string
+): Promise<void> {
+    await redis.del(sessionKey(userId));
+
+    const lastSeenAt = session.lastSeenAt || session.startedAt;
+    await sendScrobble('pause', session.target, estimateProgress(session, lastSeenAt), accessToken)
+        .catch((error) => console.error('Failed to pause abandoned session:', error));
+}
+
+/**
+ * Stop the user's playback session at its estimated progress.
+ * Returns true only if Simkl marked the item as watched; a stop below
+ * Simkl's own cutoff is recorded as a pause and reported as false.
+ */
+export async function stopPlaybackSession(
+    userId: string,
+    session: PlaybackSession,
+    accessToken: string
+): Promise<boolean> {
+    const current = await getPlaybackSession(userId);
+    if (current && isSameTarget(current.target, session.target)) {
+        await redis.del(sessionKey(userId));
+    }
+
+    try {
+        const action = await sendScrobble('stop', session.target, estimateProgress(session), accessToken);
+        return action === 'scrobble';
+    } catch (error) {
+        console.error('Failed to send scrobble stop:', error);
+        return false;
+    }
+}
@@ -1,7 +1,21 @@
 import fetch from 'node-fetch';
+import { cached, CacheOptions } from './cache';
+import { resolveAnimeIds, AnimeIds } from './idmap';
+import { CatalogItem } from './catalog';
 
 const SIMKL_API_BASE = 'https://api.simkl.com';
 
+// ID lookups rarely change; detail pages are refreshed daily
+const LOOKUP_CACHE: CacheOptions = { ttl: 7 * 24 * 60 * 60, negativeTtl: 6 * 60 * 60 };
+const INFO_CACHE: CacheOptions = { ttl: 24 * 60 * 60, negativeTtl: 6 * 60 * 60 };
+
+// Default runtimes (minutes) when Simkl has none for the item
+const DEFAULT_RUNTIMES: Record<string, number> = {
+    movie: 90,
+    show: 45,
+    anime: 25,
+};
+
 interface SimklTokenResponse {
     access_token: string;
     token_type: string;
@@ -22,15 +36,32 @@ interface SimklIdLookupResult {
     runtime?: number; // in minutes
 }
 
-interface SimklMovieInfo {
-    ids: { simkl: number };
+// Detail fields returned by the movie/tv/anime endpoints with ?extended=full
+export interface SimklMediaDetails {
+    ids: SimklMediaIds;
     title: string;
+    year?: number;
+    poster?: string;
+    fanart?: string;
+    overview?: string;
+    genres?: string[];
+    certification?: string;
+    director?: string;
+    country?: string;
+    released?: string;       // movies
+    first_aired?: string;    // shows/anime
+    total_episodes?: number;
+    ratings?: {
+        simkl?: { rating: number; votes: number };
+        imdb?: { rating: number; votes: number };
+    };
+}
+
+export interface SimklMovieInfo extends SimklMediaDetails {
     runtime: number; // in minutes
 }
 
-interface SimklShowInfo {
-    ids: { simkl: number };
-    title: string;
+export interface SimklShowInfo extends SimklMediaDetails {
     runtime: number; // episode runtime in minutes
 }
 
@@ -83,44 +114,89 @@ export function getAuthUrl(redirectUri: string): string {
     return `https://simkl.com/oauth/authorize?response_type=code&client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri)}`;
 }
 
+/**
+ * Query Simkl's /search/id endpoint, cached per external ID.
+ * Returns an empty array if nothing matched or the request failed.
+ */
+async function searchById(
+    idType: string,
+    id: string,
+    accessToken: string
+): Promise<SimklIdLookupResult[]> {
+    const results = await cached(`search:${idType}:${id}`, LOOKUP_CACHE, async () => {
+        const response = await fetch(
+            `${SIMKL_API_BASE}/search/id?${idType}=${encodeURIComponent(id)}`,
+            { headers: getHeaders(accessToken) }
+        );
+
+        if (!response.ok) {
+            throw new Error(`Simkl lookup failed for ${idType} ${id}: ${response.status}`);
+        }
+
+        const data = (await response.json()) as SimklIdLookupResult[];
+        return data && data.length > 0 ? data : null;
+    });
+
+    // Either a (cached) "not found" or a failed request; callers treat both as no match
+    return results || [];
+}
+
+/**
+ * Fetch a Simkl detail endpoint, cached per path.
+ * Returns null if the item does not exist or the request failed.
+ */
+async function getCachedInfo<T>(path: string, label: string, accessToken: string): Promise<T | null> {
+    return cached<T>(`info:${path}`, INFO_CACHE, async () => {
+        const response = await fetch(
+            `${SIMKL_API_BASE}${path}`,
+            { headers: getHeaders(accessToken) }
+        );
+
+        if (response.status === 404) {
+            return null;
+        }
+
+        if (!response.ok) {
+            throw new Error(`Failed to get ${label}: ${response.status}`);
+        }
+
+        return (await response.json()) as T;
+    });
+}
+
+// Result of lookupByImdb / lookupByKitsu
+export interface SimklLookup {
+    simklId: number;
+    runtime?: number;
+    type: 'movie' | 'show' | 'anime';
+    ids?: { mal?: number };
+}
+
 /**
  * Look up a media item by IMDb ID and get its Simkl ID + runtime.
+ * Runtime is Simkl's item-level runtime, if it has one (see resolveRuntime).
  * Returns null if not found.
  */
 export async function lookupByImdb(
     imdbId: string,
     accessToken: string
-): Promise<{ simklId: number; runtime: number; type: 'movie' | 'show' | 'anime' } | null> {
-    const response = await fetch(
-        `${SIMKL_API_BASE}/search/id?imdb=${imdbId}`,
-        { headers: getHeaders(accessToken) }
-    );
-
-    if (!response.ok) {
-        console.error(`Simkl lookup failed for ${imdbId}: ${response.status}`);
-        return null;
-    }
+): Promise<SimklLookup | null> {
+    const results = await searchById('imdb', imdbId, accessToken);
 
-    const results = (await response.json()) as SimklIdLookupResult[];
-
-    if (!results || results.length === 0) {
+    if (results.length === 0) {
         console.warn(`No Simkl results found for IMDb ID: ${imdbId}`);
         return null;
     }
 
     const item = results[0];
 
-    // Default runtimes if not available
-    const defaultRuntimes: Record<string, number> = {
-        movie: 90,
-        show: 45,
-        anime: 25,
-    };
-
     return {
         simklId: item.ids.simkl,
-        runtime: item.runtime || defaultRuntimes[item.type] || 45,
+        runtime: item.runtime,
         type: item.type,
+        ids: {
+            mal: item.ids.mal,
+        },
     };
 }
 
@@ -128,34 +204,14 @@ export async function lookupByImdb(
  * Get detailed movie info including runtime.
  */
 export async function getMovieInfo(simklId: number, accessToken: string): Promise<SimklMovieInfo | null> {
-    const response = await fetch(
-        `${SIMKL_API_BASE}/movies/${simklId}`,
-        { headers: getHeaders(accessToken) }
-    );
-
-    if (!response.ok) {
-        console.error(`Failed to get movie info for ${simklId}: ${response.status}`);
-        return null;
-    }
-
-    return (await response.json()) as SimklMovieInfo;
+    return getCachedInfo<SimklMovieInfo>(`/movies/${simklId}?extended=full`, `movie info for ${simklId}`, accessToken);
 }
 
 /**
  * Get detailed show info including episode runtime.
  */
 export async function getShowInfo(simklId: number, accessToken: string): Promise<SimklShowInfo | null> {
-    const response = await fetch(
-        `${SIMKL_API_BASE}/tv/${simklId}`,
-        { headers: getHeaders(accessToken) }
-    );
-
-    if (!response.ok) {
-        console.error(`Failed to get show info for ${simklId}: ${response.status}`);
-        return null;
-    }
-
-    return (await response.json()) as SimklShowInfo;
+    return getCachedInfo<SimklShowInfo>(`/tv/${simklId}?extended=full`, `show info for ${simklId}`, accessToken);
 }
 
 /**
@@ -233,25 +289,16 @@ export async function scrobbleEpisode(
 
 /**
  * Look up an anime by Kitsu ID and get its Simkl ID + runtime.
+ * Runtime is Simkl's item-level runtime, if it has one (see resolveRuntime).
  * Returns null if not found.
  */
 export async function lookupByKitsu(
     kitsuId: string,
     accessToken: string
-): Promise<{ simklId: number; runtime: number; type: 'anime'; ids?: { mal?: number } } | null> {
-    const response = await fetch(
-        `${SIMKL_API_BASE}/search/id?kitsu=${kitsuId}`,
-        { headers: getHeaders(accessToken) }
-    );
-
-    if (!response.ok) {
-        console.error(`Simkl lookup failed for Kitsu ${kitsuId}: ${response.status}`);
-        return null;
-    }
+): Promise<(SimklLookup & { type: 'anime' }) | null> {
+    const results = await searchById('kitsu', kitsuId, accessToken);
 
-    const results = (await response.json()) as SimklIdLookupResult[];
-
-    if (!results || results.length === 0) {
+    if (results.length === 0) {
         console.warn(`No Simkl results found for Kitsu ID: ${kitsuId}`);
         return null;
     }
@@ -260,7 +307,7 @@ export async function lookupByKitsu(
 
     return {
         simklId: item.ids.simkl,
-        runtime: item.runtime || 24, // Default anime episode runtime
+        runtime: item.runtime,
         type: 'anime',
         ids: {
             mal: item.ids.mal,
@@ -268,36 +315,99 @@ export async function lookupByKitsu(
     };
 }
 
-interface SimklAnimeInfo {
-    ids: { simkl: number };
-    title: string;
+export interface SimklAnimeInfo extends SimklMediaDetails {
     runtime: number;
+    anime_type?: string;
 }
 
 /**
  * Get detailed anime info including episode runtime.
  */
 export async function getAnimeInfo(simklId: number, accessToken: string): Promise<SimklAnimeInfo | null> {
-    const response = await fetch(
-        `${SIMKL_API_BASE}/anime/${simklId}`,
-        { headers: getHeaders(accessToken) }
+    return getCachedInfo<SimklAnimeInfo>(`/anime/${simklId}?extended=full`, `anime info for ${simklId}`, accessToken);
+}
+
+export interface SimklEpisode {
+    title?: string;
+    season?: number;
+    episode: number;
+    type?: 'episode' | 'special';
+    aired?: boolean;
+    date?: string;
+    img?: string;
+    runtime?: number; // in minutes, when Simkl has it
+    ids?: { simkl_id?: number };
+}
+
+/**
+ * Get the episode list of a show or anime, cached per item.
+ * Returns an empty array if the list is unavailable.
+ */
+export async function getEpisodes(
+    simklId: number,
+    kind: 'tv' | 'anime',
+    accessToken: string
+): Promise<SimklEpisode[]> {
+    const episodes = await getCachedInfo<SimklEpisode[]>(
+        `/${kind}/episodes/${simklId}?extended=full`,
+        `${kind} episodes for ${simklId}`,
+        accessToken
     );
+    return Array.isArray(episodes) ? episodes : [];
+}
 
-    if (!response.ok) {
-        console.error(`Failed to get anime info for ${simklId}: ${response.status}`);
-        return null;
+/**
+ * Resolve the runtime (minutes) to schedule a scrobble with.
+ * Prefers the specific episode's runtime, then the item-level runtime
+ * (from the ID lookup or the detail endpoint), then the type default.
+ */
+export async function resolveRuntime(
+    target: ScrobbleTarget,
+    itemRuntime: number | undefined,
+    accessToken: string
+): Promise<number> {
+    if (target.type !== 'movie' && target.episode !== undefined) {
+        const episodes = await getEpisodes(target.simklId, target.type === 'anime' ? 'anime' : 'tv', accessToken);
+        const match = episodes.find((ep) =>
+            ep.episode === target.episode
+            && ep.type !== 'special'
+            && (ep.season || 1) === (target.season || 1)
+        );
+
+        if (match?.runtime) {
+            return match.runtime;
+        }
+    }
+
+    if (itemRuntime) {
+        return itemRuntime;
     }
 
-    return (await response.json()) as SimklAnimeInfo;
+    let info: { runtime?: number } | null;
+    if (target.type === 'movie') {
+        info = await getMovieInfo(target.simklId, accessToken);
+    } else if (target.type === 'anime') {
+        info = await getAnimeInfo(target.simklId, accessToken);
+    } else {
+        info = await getShowInfo(target.simklId, accessToken);
+    }
+
+    if (info?.runtime) {
+        return info.runtime;
+    }
+
+    return DEFAULT_RUNTIMES[target.type === 'episode' ? 'show' : target.type];
 }
 
 /**
  * Scrobble an anime episode to Simkl watched history.
+ * Season defaults to 1 for anime that Simkl lists as a single season.
  */
 export async function scrobbleAnime(
     simklId: number,
     episodeNumber: number,
-    accessToken: string
+    accessToken: string,
+    season: number = 1
 ): Promise<boolean> {
     const watchedAt = new Date().toISOString();
 
@@ -310,7 +420,7 @@ export async function scrobbleAnime(
                     ids: { simkl: simklId },
                     seasons: [
                         {
-                            number: 1, // Anime typically uses season 1 with absolute episode numbers
+                            number: season,
                             episodes: [
                                 {
                                     number: episodeNumber,
@@ -326,42 +436,187 @@ export async function scrobbleAnime(
 
     if (!response.ok) {
         const error = await response.text();
-        console.error(`Failed to scrobble anime episode ${episodeNumber} of ${simklId}: ${response.status} ${error}`);
+        console.error(`Failed to scrobble anime episode S${season}E${episodeNumber} of ${simklId}: ${response.status} ${error}`);
         return false;
     }
 
-    console.log(`Successfully scrobbled anime episode ${episodeNumber} of ${simklId} to Simkl`);
+    console.log(`Successfully scrobbled anime episode S${season}E${episodeNumber} of ${simklId} to Simkl`);
     return true;
 }
 
+export interface SimklCalendarEntry {
+    title: string;
+    poster?: string;
+    date: string;             // Air date/time (ISO 8601)
+    ids: { simkl_id: number; slug?: string; imdb?: string; tmdbid?: string };
+    episode?: { season?: number; episode: number };
+}
+
+const CALENDAR_CACHE: CacheOptions = { ttl: 6 * 60 * 60, negativeTtl: 30 * 60 };
+
+/**
+ * Get Simkl's public airing calendar for TV shows or anime, cached for all users.
+ * Returns an empty array if it is unavailable.
+ */
+export async function getCalendar(kind: 'tv' | 'anime'): Promise<SimklCalendarEntry[]> {
+    const entries = await cached<SimklCalendarEntry[]>(`calendar:${kind}`, CALENDAR_CACHE, async () => {
+        const response = await fetch(`https://data.simkl.in/calendar/${kind}.json`);
+
+        if (!response.ok) {
+            throw new Error(`Failed to get Simkl ${kind} calendar: ${response.status}`);
+        }
+
+        return (await response.json()) as SimklCalendarEntry[];
+    });
+    return Array.isArray(entries) ? entries : [];
+}
+
+export interface SimklSearchResult {
+    title: string;
+    year?: number;
+    poster?: string;
+    type?: string;            // "movie", "tv" or "anime"
+    anime_type?: string;      // "tv", "movie", "ova", ... (anime only)
+    ids: Omit<SimklMediaIds, 'simkl'> & { simkl_id: number };
+    ratings?: SimklListMedia['ratings'];
+}
+
+const SEARCH_CACHE: CacheOptions = { ttl: 60 * 60, negativeTtl: 10 * 60 };
+const SEARCH_LIMIT = 50;
+
+/**
+ * Search Simkl by title. Results are in Simkl's relevance order.
+ * Returns an empty array on failure or when nothing matches.
+ */
+export async function searchByText(kind: 'movie' | 'tv' | 'anime', query: string): Promise<SimklSearchResult[]> {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return [];
+
+    const results = await cached<SimklSearchResult[]>(`text-search:${kind}:${normalized}`, SEARCH_CACHE, async () => {
+        const response = await fetch(
+            `${SIMKL_API_BASE}/search/${kind}?q=${encodeURIComponent(normalized)}&extended=full&limit=${SEARCH_LIMIT}`,
+            { headers: getHeaders() }
+        );
+
+        if (!response.ok) {
+            throw new Error(`Simkl ${kind} search failed for "${normalized}": ${response.status}`);
+        }
+
+        const data = (await response.json()) as SimklSearchResult[];
+        return data && data.length > 0 ? data : null;
+    });
+    return results || [];
+}
+
 // ============================================
-// Watchlist / Catalog functions
+// Real-time scrobble functions
 // ============================================
 
-export interface SimklListItem {
-    show?: {
-        ids: { simkl: number; imdb?: string; slug?: string };
-        title: string;
-        poster?: string;
-        year?: number;
-    };
-    movie?: {
-        ids: { simkl: number; imdb?: string; slug?: string };
-        title: string;
-        poster?: string;
-        year?: number;
+export type ScrobbleAction = 'start' | 'pause' | 'stop';
+
+export interface ScrobbleTarget {
+    type: 'movie' | 'episode' | 'anime';
+    simklId: number;
+    season?: number;
+    episode?: number;
+}
+
+/**
+ * Build the request body for Simkl's /scrobble endpoints.
+ */
+function buildScrobbleBody(target: ScrobbleTarget, progress: number): Record<string, any> {
+    const body: Record<string, any> = {
+        progress: Math.round(Math.max(0, Math.min(100, progress)) * 100) / 100,
     };
-    anime?: {
-        ids: { simkl: number; imdb?: string; mal?: string; slug?: string };
-        title: string;
-        poster?: string;
-        year?: number;
+
+    if (target.type === 'movie') {
+        body.movie = { ids: { simkl: target.simklId } };
+    } else {
+        body.show = { ids: { simkl: target.simklId } };
+        body.episode = {
+            // Anime listed as a single season has no season in the target
+            season: target.season || 1,
+            number: target.episode,
+        };
+    }
+
+    return body;
+}
+
+/**
+ * Send a real-time scrobble event (start, pause or stop) to Simkl.
+ * Progress is a percentage (0-100). Returns the action Simkl recorded
+ * ('start', 'pause' or 'scrobble'), or null if the request failed.
+ */
+export async function sendScrobble(
+    action: ScrobbleAction,
+    target: ScrobbleTarget,
+    progress: number,
+    accessToken: string
+): Promise<string | null> {
+    const response = await fetch(`${SIMKL_API_BASE}/scrobble/${action}`, {
+        method: 'POST',
+        headers: getHeaders(accessToken),
+        body: JSON.stringify(buildScrobbleBody(target, progress)),
+    });
+
+    if (!response.ok) {
+        const error = await response.text();
+        console.error(`Simkl scrobble ${action} failed for ${target.type} ${target.simklId}: ${response.status} ${error}`);
+        return null;
+    }
+
+    const data = (await response.json()) as { action?: string };
+    console.log(`Simkl scrobble ${action} at ${Math.round(progress)}% for ${target.type} ${target.simklId} (${data.action})`);
+    return data.action || action;
+}
+
+// ============================================
+// Watchlist / Catalog functions
+// ============================================
+
+// Extended IDs returned with ?extended=full (Simkl sends most of them as strings)
+export interface SimklMediaIds {
+    simkl: number;
+    slug?: string;
+    imdb?: string;
+    tmdb?: string;
+    tvdb?: string;
+    mal?: string;
+    kitsu?: string;
+    anilist?: string;
+    anidb?: string;
+}
+
+// Media object nested in list items
+export interface SimklListMedia {
+    ids: SimklMediaIds;
+    title: string;
+    poster?: string;
+    year?: number;
+    genres?: string[];
+    ratings?: {
+        simkl?: { rating: number };
+        imdb?: { rating: number };
     };
+}
+
+export interface SimklListItem {
+    show?: SimklListMedia;
+    movie?: SimklListMedia;
+    anime?: SimklListMedia;
+    anime_type?: string;
+    added_to_watchlist_at?: string;
+    last_watched_at?: string;
+    user_rating?: number;
+    next_to_watch?: string;           // e.g. "S02E05" (shows/anime only)
+    watched_episodes_count?: number;
+    total_episodes_count?: number;
     status: 'watching' | 'plantowatch' | 'hold' | 'completed' | 'dropped';
 }
 
-type ListType = 'movies' | 'shows' | 'anime';
-type ListStatus = 'watching' | 'plantowatch';
+export type ListType = 'movies' | 'shows' | 'anime';
+export type ListStatus = 'watching' | 'plantowatch' | 'hold' | 'completed' | 'dropped';
 
 /**
  * Fetch user's list (watching, plantowatch, etc.) for a specific media type.
@@ -371,7 +626,7 @@ export async function getUserList(
     status: ListStatus,
     accessToken: string
 ): Promise<SimklListItem[]> {
-    const endpoint = `${SIMKL_API_BASE}/sync/all-items/${listType}/${status}`;
+    const endpoint = `${SIMKL_API_BASE}/sync/all-items/${listType}/${status}?extended=full`;
 
     const response = await fetch(endpoint, {
         headers: getHeaders(accessToken),
@@ -386,38 +641,189 @@ export async function getUserList(
     return (data as { [key: string]: SimklListItem[] })[listType] || [];
 }
 
+/**
+ * Move a movie, show or anime to one of the user's lists.
+ * Anime are sent as shows, which Simkl files under the right list.
+ */
+export async function addToList(
+    type: 'movie' | 'show' | 'anime',
+    simklId: number,
+    status: ListStatus,
+    accessToken: string
+): Promise<boolean> {
+    const section = type === 'movie' ? 'movies' : 'shows';
+
+    const response = await fetch(`${SIMKL_API_BASE}/sync/add-to-list`, {
+        method: 'POST',
+        headers: getHeaders(accessToken),
+        body: JSON.stringify({
+            [section]: [{ to: status, ids: { simkl: simklId } }],
+        }),
+    });
+
+    if (!response.ok) {
+        const error = await response.text();
+        console.error(`Failed to add ${type} ${simklId} to ${status}: ${response.status} ${error}`);
+        return false;
+    }
+
+    console.log(`Added ${type} ${simklId} to Simkl ${status} list`);
+    return true;
+}
+
+/**
+ * Fetch every item of a media type across all statuses.
+ * With dateFrom, only items changed since then are returned (removals are not included).
+ * Returns null if the request failed.
+ */
+export async function getAllItems(
+    listType: ListType,
+    accessToken: string,
+    dateFrom?: string
+): Promise<SimklListItem[] | null> {
+    let endpoint = `${SIMKL_API_BASE}/sync/all-items/${listType}?extended=full`;
+    if (dateFrom) {
+        endpoint += `&date_from=${encodeURIComponent(dateFrom)}`;
+    }
+
+    const response = await fetch(endpoint, {
+        headers: getHeaders(accessToken),
+    });
+
+    if (!response.ok) {
+        console.error(`Failed to fetch ${listType} items: ${response.status}`);
+        return null;
+    }
+
+    // Simkl answers with an empty body when nothing changed
+    const text = await response.text();
+    if (!text) return [];
+
+    const data = JSON.parse(text);
+    return (data as { [key: string]: SimklListItem[] })?.[listType] || [];
+}
+
+// Last-change timestamps per section, from /sync/activities
+export interface SimklActivitySection {
+    all?: string;
+    removed_from_list?: string;
+    [key: string]: string | undefined;
+}
+
+export interface SimklActivities {
+    all?: string;
+    movies?: SimklActivitySection;
+    tv_shows?: SimklActivitySection;
+    anime?: SimklActivitySection;
+}
+
+/**
+ * Get the user's last activity timestamps.
+ * Returns null if the request failed.
+ */
+export async function getActivities(accessToken: string): Promise<SimklActivities | null> {
+    const response = await fetch(`${SIMKL_API_BASE}/sync/activities`, {
+        method: 'POST',
+        headers: getHeaders(accessToken),
+    });
+
+    if (!response.ok) {
+        console.error(`Failed to fetch Simkl activities: ${response.status}`);
+        return null;
+    }
+
+    return (await response.json()) as SimklActivities;
+}
+
+/**
+ * Find a Simkl anime's entry in the offline mapping.
+ */
+function mapAnimeIds(ids: SimklMediaIds): AnimeIds | null {
+    return (ids.mal && resolveAnimeIds('mal', ids.mal))
+        || (ids.anilist && resolveAnimeIds('anilist', ids.anilist))
+        || (ids.anidb && resolveAnimeIds('anidb', ids.anidb))
+        || null;
+}
+
+/**
+ * Get the IMDb season of a Simkl anime from the offline mapping.
+ * IMDb IDs are shared by all seasons of a show, while Simkl numbers anime
+ * episodes per entry. Returns undefined if the season isn't known.
+ */
+export function mappedAnimeSeason(ids: SimklMediaIds): number | undefined {
+    return mapAnimeIds(ids)?.season?.tvdb;
+}
+
+/**
+ * Pick the best Stremio-resolvable ID for a Simkl item.
+ * Anime: Kitsu (direct or via the offline mapping), then IMDb.
+ * Movies/shows: IMDb. Falls back to a simkl: ID.
+ */
+export function pickStremioId(ids: SimklMediaIds, isAnime: boolean): string {
+    if (isAnime) {
+        if (ids.kitsu) {
+            return `kitsu:${ids.kitsu}`;
+        }
+
+        const mapped = mapAnimeIds(ids);
+
+        if (mapped?.kitsu) {
+            return `kitsu:${mapped.kitsu}`;
+        }
+
+        const imdb = ids.imdb || mapped?.imdb;
+        if (imdb) {
+            return imdb;
+        }
+    }
+
+    if (ids.imdb) {
+        return ids.imdb;
+    }
+
+    // Served by this addon's meta resource
+    return `simkl:${ids.simkl}`;
+}
+
 /**
  * Convert Simkl list item to Stremio meta object.
+ * Items from the anime list are treated as anime even when Simkl nests them under "show".
  */
-export function simklItemToStremiometa(item: SimklListItem, type: 'movie' | 'series'): {
+export function simklItemToStremiometa(item: SimklListItem, type: 'movie' | 'series', isAnime: boolean = false): {
     id: string;
     type: string;
     name: string;
     poster?: string;
     year?: number;
+    genres?: string[];
 } | null {
     const media = item.movie || item.show || item.anime;
     if (!media) return null;
 
-    // Prefer IMDb ID for movies/shows, fallback to simkl ID
-    let id: string;
-    if (item.movie && media.ids.imdb) {
-        id = media.ids.imdb;
-    } else if (item.show && media.ids.imdb) {
-        id = media.ids.imdb;
-    } else if (item.anime) {
-        // For anime, use kitsu format if available, otherwise simkl
-        id = `kitsu:${media.ids.simkl}`;
-    } else {
-        id = `simkl:${media.ids.simkl}`;
-    }
-
     return {
-        id,
+        id: pickStremioId(media.ids, isAnime || !!item.anime),
         type,
         name: media.title,
         poster: media.poster ? `https://simkl.in/posters/${media.poster}_m.webp` : undefined,
         year: media.year,
+        genres: media.genres,
     };
 }
 
+/**
+ * Convert Simkl list item to a catalog item with the fields used for sorting.
+ */
+export function simklItemToCatalogItem(item: SimklListItem, type: 'movie' | 'series', isAnime: boolean = false): CatalogItem | null {
+    const meta = simklItemToStremiometa(item, type, isAnime);
+    if (!meta) return null;
+
+    const media = item.movie || item.show || item.anime;
+    const addedAt = item.added_to_watchlist_at ? Date.parse(item.added_to_watchlist_at) : NaN;
+
+    return {
+        meta,
+        addedAt: Number.isNaN(addedAt) ? undefined : addedAt,
+        year: media.year,
+        rating: media.ratings?.simkl?.rating ?? media.ratings?.imdb?.rating,
+    };
+}
@@ -0,0 +1,118 @@
+import { getStoredList } from './liststore';
+import { simklItemToStremiometa, mappedAnimeSeason, SimklListItem } from './simkl';
+import { getAniListEntries, anilistMediaToStremioId } from './anilist';
+import { buildVideoId } from './meta';
+import { CatalogItem } from './catalog';
+
+/**
+ * "Up Next" catalogs: the next unwatched episode of everything in progress.
+ * Items keep the series ID (so the detail page loads) and point Stremio at
+ * the episode through behaviorHints.defaultVideoId.
+ */
+
+/**
+ * Parse Simkl's next_to_watch value ("S02E05", or "E05" for single-season anime).
+ */
+export function parseNextToWatch(value: string | undefined): { season: number; episode: number } | null {
+    const match = value ? /^(?:S(\d+))?E(\d+)$/i.exec(value.trim()) : null;
+    if (!match) return null;
+    return { season: match[1] ? parseInt(match[1], 10) : 1, episode: parseInt(match[2], 10) };
+}
+
+function formatEpisode(season: number, episode: number): string {
+    return `S${String(season).padStart(2, '0')}E${String(episode).padStart(2, '0')}`;
+}
+
+function simklUpNextItem(item: SimklListItem, isAnime: boolean): CatalogItem | null {
+    const next = parseNextToWatch(item.next_to_watch);
+    if (!next) return null;
+
+    const meta = simklItemToStremiometa(item, 'series', isAnime);
+    if (!meta) return null;
+
+    // Simkl numbers anime per entry; an IMDb ID needs the mapped season
+    const season = isAnime && meta.id.startsWith('tt')
+        ? mappedAnimeSeason((item.anime || item.show).ids)
+        : next.season;
+    if (season === undefined) return null;
+
+    const lastWatched = item.last_watched_at ? Date.parse(item.last_watched_at) : NaN;
+
+    return {
+        meta: {
+            ...meta,
+            name: `${meta.name} · ${formatEpisode(season, next.episode)}`,
+            description: `Up next: ${formatEpisode(season, next.episode)}`,
+            behaviorHints: { defaultVideoId: buildVideoId(meta.id, season, next.episode) },
+        },
+        // Most recently watched first when sorting by date
+        addedAt: Number.isNaN(lastWatched) ? undefined : lastWatched,
+        year: meta.year,
+    };
+}
+
+/**
+ * Build Up Next items from the user's Simkl Watching shows and anime.
+ */
+export async function getSimklUpNext(userId: string, accessToken: string): Promise<CatalogItem[]> {
+    const [shows, anime] = await Promise.all([
+        getStoredList(userId, 'shows', 'watching', accessToken),
+        getStoredList(userId, 'anime', 'watching', accessToken),
+    ]);
+
+    return [
+        ...shows.map((item) => simklUpNextItem(item, false)),
+        ...anime.map((item) => simklUpNextItem(item, true)),
+    ].filter(Boolean);
+}
+
+/**
+ * Build Up Next items from the user's AniList Watching list.
+ * Skips entries that are caught up with what has aired.
+ */
+export async function getAniListUpNext(accessToken: string): Promise<CatalogItem[]> {
+    let entries: any[];
+    try {
+        entries = await getAniListEntries('CURRENT', accessToken);
+    } catch (error) {
+        console.error('Failed to fetch AniList up next:', error);
+        return [];
+    }
+
+    return entries
+        .map((entry: any): CatalogItem | null => {
+            const media = entry.media;
+            const nextEpisode = (entry.progress || 0) + 1;
+
+            // Latest available episode: one before the next airing, or the total
+            const available = media.nextAiringEpisode?.episode
+                ? media.nextAiringEpisode.episode - 1
+                : media.episodes;
+            if (available && nextEpisode > available) return null;
+
+            const stremio = anilistMediaToStremioId(media);
+            if (!stremio || stremio.type === 'movie') return null;
+
+            // Kitsu numbers per entry like AniList; IMDb needs the mapped season
+            const season = stremio.id.startsWith('kitsu:') ? 1 : stremio.season;
+            if (season === undefined) return null;
+
+            const name = media.title.english || media.title.romaji;
+
+            return {
+                meta: {
+                    id: stremio.id,
+                    type: stremio.type,
+                    name: `${name} · E${String(nextEpisode).padStart(2, '0')}`,
+                    poster: media.coverImage?.large,
+                    description: `Up next: episode ${nextEpisode}`,
+                    genres: media.genres,
+                    behaviorHints: { defaultVideoId: buildVideoId(stremio.id, season, nextEpisode) },
+                },
+                addedAt: entry.updatedAt ? entry.updatedAt * 1000 : undefined,
+                year: media.seasonYear || undefined,
+                rating: media.averageScore ? media.averageScore / 10 : undefined,
+            };
+        })
+        .filter(Boolean);
+}